@@ -1,11 +1,12 @@
 import * as path from 'path'
 import {
-	workspace as Workspace, window as Window, ExtensionContext, TextDocument, OutputChannel, WorkspaceFolder, Uri
+	workspace as Workspace, window as Window, commands as Commands, ExtensionContext, TextDocument, OutputChannel, WorkspaceFolder, Uri, ViewColumn,
+	TreeDataProvider, TreeItem, TreeItemCollapsibleState, TreeView, EventEmitter, Range, TextEditor
 } from 'vscode'
 
 import {
-	LanguageClient, LanguageClientOptions, TransportKind
-} from 'vscode-languageclient'
+	LanguageClient, LanguageClientOptions, TransportKind, Position as LspPosition, Location as LspLocation
+} from 'vscode-languageclient/node'
 
 let defaultClient: LanguageClient
 const clients: Map<string, LanguageClient> = new Map()
@@ -43,6 +44,146 @@ function getOuterMostWorkspaceFolder(folder: WorkspaceFolder): WorkspaceFolder {
 	return folder
 }
 
+function getClient(uri: Uri): LanguageClient | undefined {
+	if (uri.scheme === 'untitled')
+		return defaultClient
+	const folder = Workspace.getWorkspaceFolder(uri)
+	return folder ? clients.get(getOuterMostWorkspaceFolder(folder).uri.toString()) : undefined
+}
+
+async function showResolvedTemplate() {
+	const editor = Window.activeTextEditor
+	if (!editor || editor.document.languageId !== 'blk')
+		return
+	const client = getClient(editor.document.uri)
+	if (!client)
+		return
+	const params = client.code2ProtocolConverter.asTextDocumentPositionParams(editor.document, editor.selection.active)
+	const text = await client.sendRequest<string | null>('blk-ecs/resolvedTemplate', params)
+	if (!text) {
+		Window.showInformationMessage('No template under cursor')
+		return
+	}
+	const document = await Workspace.openTextDocument({ language: 'blk', content: text })
+	await Window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true })
+}
+
+// text view of whole type hierarchy
+async function showTypeHierarchy() {
+	const editor = Window.activeTextEditor
+	if (!editor || editor.document.languageId !== 'blk')
+		return
+	const client = getClient(editor.document.uri)
+	if (!client)
+		return
+	const params = client.code2ProtocolConverter.asTextDocumentPositionParams(editor.document, editor.selection.active)
+	const text = await client.sendRequest<string | null>('blk-ecs/typeHierarchy', params)
+	if (!text) {
+		Window.showInformationMessage('No template or entity under cursor')
+		return
+	}
+	const document = await Workspace.openTextDocument({ content: text })
+	await Window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true })
+}
+
+// report of whole workspace, one section per workspace folder server
+async function showUnusedTemplates() {
+	const texts: string[] = []
+	for (const client of clients.values())
+		texts.push(await client.sendRequest<string>('blk-ecs/unusedTemplates'))
+	if (texts.length == 0) {
+		Window.showInformationMessage('No blk workspace')
+		return
+	}
+	const document = await Workspace.openTextDocument({ content: texts.join("\n\n") })
+	await Window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true })
+}
+
+// code lens arguments are protocol values, references peek expects vscode ones
+function showReferences(uri: string, position: LspPosition, locations: LspLocation[]) {
+	const client = getClient(Uri.parse(uri)) ?? defaultClient
+	if (!client)
+		return
+	const converter = client.protocol2CodeConverter
+	Commands.executeCommand('editor.action.showReferences', Uri.parse(uri), converter.asPosition(position), locations.map(it => converter.asLocation(it)))
+}
+
+interface SceneViewComponent {
+	name: string
+	type: string
+	value: string
+	template: string
+	location: { uri: string, range: { start: { line: number, character: number }, end: { line: number, character: number } } }
+	local: boolean
+	undeclared: boolean
+	inherited: SceneViewComponent[]
+}
+
+interface SceneView {
+	templates: string[]
+	unknown: string[]
+	components: SceneViewComponent[]
+}
+
+// merged components of entity under cursor
+class SceneViewProvider implements TreeDataProvider<SceneViewComponent> {
+	private view: SceneView | null = null
+	private changed = new EventEmitter<SceneViewComponent | undefined>()
+	readonly onDidChangeTreeData = this.changed.event
+	treeView: TreeView<SceneViewComponent> | undefined
+
+	async update(editor: TextEditor | undefined) {
+		if (!this.treeView?.visible || !editor || editor.document.languageId !== 'blk')
+			return
+		const client = getClient(editor.document.uri)
+		if (!client)
+			return
+		const params = client.code2ProtocolConverter.asTextDocumentPositionParams(editor.document, editor.selection.active)
+		const view = await client.sendRequest<SceneView | null>('blk-ecs/sceneView', params)
+		if (!view && this.view)
+			return // keep last entity while cursor is outside of entities
+		this.view = view
+		this.treeView.description = view ? view.templates.join(" + ") : undefined
+		this.treeView.message = view && view.unknown.length > 0 ? `Unknown templates: ${view.unknown.join(", ")}` : undefined
+		this.changed.fire(undefined)
+	}
+
+	getTreeItem(it: SceneViewComponent): TreeItem {
+		const item = new TreeItem(it.type ? `${it.name}:${it.type}` : it.name,
+			it.inherited.length > 0 ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None)
+		const source = it.undeclared ? "local, not declared in templates" : it.local ? "local" : it.template
+		item.description = it.value ? `${it.value}  ${source}` : source
+		item.tooltip = `${it.name}${it.type ? ":" + it.type : ""}=${it.value}\n${source}`
+		const range = it.location.range
+		item.command = {
+			title: "Open",
+			command: 'vscode.open',
+			arguments: [Uri.parse(it.location.uri), { selection: new Range(range.start.line, range.start.character, range.end.line, range.end.character) }],
+		}
+		return item
+	}
+
+	getChildren(it?: SceneViewComponent): SceneViewComponent[] {
+		return it ? it.inherited : this.view?.components ?? []
+	}
+}
+
+function registerSceneView(context: ExtensionContext) {
+	const provider = new SceneViewProvider()
+	const treeView = Window.createTreeView('blk-ecs.sceneView', { treeDataProvider: provider })
+	provider.treeView = treeView
+	let timer: NodeJS.Timeout | undefined
+	const update = () => {
+		if (timer)
+			clearTimeout(timer)
+		timer = setTimeout(() => provider.update(Window.activeTextEditor), 300)
+	}
+	context.subscriptions.push(treeView,
+		treeView.onDidChangeVisibility(update),
+		Window.onDidChangeActiveTextEditor(update),
+		Window.onDidChangeTextEditorSelection(update))
+}
+
 export function activate(context: ExtensionContext) {
 
 	const module = context.asAbsolutePath(path.join('server', 'out', 'server.js'))
@@ -67,7 +208,7 @@ export function activate(context: ExtensionContext) {
 					{ scheme: 'untitled', language: 'blk' }
 				],
 				diagnosticCollectionName: 'blk-ecs',
-				outputChannel: outputChannel
+				outputChannel: outputChannel,
 			}
 			defaultClient = new LanguageClient('blk-ecs-server', 'blk-ecs-server', serverOptions, clientOptions)
 			defaultClient.start()
@@ -94,7 +235,8 @@ export function activate(context: ExtensionContext) {
 				],
 				diagnosticCollectionName: 'blk-ecs',
 				workspaceFolder: folder,
-				outputChannel: outputChannel
+				outputChannel: outputChannel,
+				initializationOptions: { storagePath: context.storagePath },
 			}
 			const client = new LanguageClient('blk-ecs-server', 'blk-ecs-server', serverOptions, clientOptions)
 			client.start()
@@ -102,6 +244,12 @@ export function activate(context: ExtensionContext) {
 		}
 	}
 
+	context.subscriptions.push(Commands.registerCommand('blk-ecs.showResolvedTemplate', showResolvedTemplate))
+	context.subscriptions.push(Commands.registerCommand('blk-ecs.showTypeHierarchy', showTypeHierarchy))
+	context.subscriptions.push(Commands.registerCommand('blk-ecs.showReferences', showReferences))
+	context.subscriptions.push(Commands.registerCommand('blk-ecs.showUnusedTemplates', showUnusedTemplates))
+	registerSceneView(context)
+
 	Workspace.onDidOpenTextDocument(didOpenTextDocument)
 	Workspace.textDocuments.forEach(didOpenTextDocument)
 	Workspace.onDidChangeWorkspaceFolders((event) => {
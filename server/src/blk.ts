@@ -177,29 +177,33 @@ function peg$parse(input: string, options?: IParseOptions) {
   const peg$startRuleFunctions: {[id: string]: any} = { DataBlock: peg$parseDataBlock };
   let peg$startRuleFunction: () => any = peg$parseDataBlock;
 
-  const peg$c0 = function(blk: any): any { return blockContent('', location(), blk); };
+  const peg$c0 = function(blk: any): any { return blockContent('', location(), notNull(blk)); };
   const peg$c1 = function(head: any, tail: any): any { return notNull([head].concat(tail)); };
   const peg$c2 = peg$otherExpectation("Block");
-  const peg$c3 = "{";
-  const peg$c4 = peg$literalExpectation("{", false);
-  const peg$c5 = "}";
-  const peg$c6 = peg$literalExpectation("}", false);
-  const peg$c7 = function(name: any, c: any, inner: any): any {
-    var content = notNull(inner)[0];
-    if (c) {
-      name += ' /* ';
-      name += c.value.value.replace(/^\/\//, '').replace(/^\/\*/, '').replace(/\*\/$/, '').replace(/(?:^\s+)|(?:\s+$)/, '');
-      name += ' */';
-    }
+  const peg$c3 = "}";
+  const peg$c4 = peg$literalExpectation("}", false);
+  const peg$c5 = function(name: any, c: any, open: any, inner: any, close: any): any {
+    var content = notNull(inner)[0] || [];
+    // comment between name and brace is kept as comment of block
+    if (c)
+      content = [c].concat(content);
+    if (!close)
+      content = content.concat([errorNode("Block '" + name + "' isn't closed", open)]);
     return {
       '_type': 'block',
       value: blockContent(name, location(), content)
     };
   };
-  const peg$c8 = peg$otherExpectation("Include");
-  const peg$c9 = "include";
-  const peg$c10 = peg$literalExpectation("include", false);
-  const peg$c11 = function(value: any): any { return {
+  const peg$c6 = "{";
+  const peg$c7 = peg$literalExpectation("{", false);
+  const peg$c8 = function(): any { return location(); };
+  const peg$c9 = peg$otherExpectation("Unexpected");
+  const peg$c10 = function(): any { return errorNode("Unexpected '" + text().trim() + "', expected block, param, include or comment", location()); };
+  const peg$c11 = function(): any { return errorNode("Unexpected '" + text() + "'", location()); };
+  const peg$c12 = peg$otherExpectation("Include");
+  const peg$c13 = "include";
+  const peg$c14 = peg$literalExpectation("include", false);
+  const peg$c15 = function(value: any): any { return {
       '_type': 'include',
       value: {
         location: location(),
@@ -207,105 +211,136 @@ function peg$parse(input: string, options?: IParseOptions) {
       }
     };
   };
-  const peg$c12 = peg$otherExpectation("Param");
-  const peg$c13 = function(indent: any, name: any, value: any): any { return {
+  const peg$c16 = peg$otherExpectation("Param");
+  const peg$c17 = function(indent: any, name: any, value: any): any { return {
       '_type': 'param',
       value: {
         location: location(),
         indent: indent,
-        value: [name].concat(value)
+        value: [name].concat(value.value),
+        error: value.error
       }
     };
   };
-  const peg$c14 = /^[ \t]/;
-  const peg$c15 = peg$classExpectation([" ", "\t"], false, false);
-  const peg$c16 = function(): any { return location(); };
-  const peg$c17 = peg$otherExpectation("Value of Param");
-  const peg$c18 = peg$otherExpectation("Name of Param or Block");
-  const peg$c19 = "\"";
-  const peg$c20 = peg$literalExpectation("\"", false);
-  const peg$c21 = function(n: any): any { return '"'+n+'"'; };
-  const peg$c22 = function(): any { return text(); };
-  const peg$c23 = /^[a-zA-Z0-9_]/;
-  const peg$c24 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_"], false, false);
-  const peg$c25 = /^[a-zA-Z0-9_.\-]/;
-  const peg$c26 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_", ".", "-"], false, false);
-  const peg$c27 = ":";
-  const peg$c28 = peg$literalExpectation(":", false);
-  const peg$c29 = function(value: any): any { return value; };
-  const peg$c30 = peg$otherExpectation("ParamValue");
-  const peg$c31 = "=";
-  const peg$c32 = peg$literalExpectation("=", false);
-  const peg$c33 = function(t: any, s: any): any { return '"'+s+'"'; };
-  const peg$c34 = function(t: any, v: any): any { return [t, v]; };
-  const peg$c35 = peg$otherExpectation("ParamType");
-  const peg$c36 = /^[a-zA-Z0-9]/;
-  const peg$c37 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"]], false, false);
-  const peg$c38 = peg$otherExpectation("ParamAnyValue");
-  const peg$c39 = "t";
-  const peg$c40 = peg$literalExpectation("t", false);
-  const peg$c41 = function(v: any): any { return ["t", v]; };
-  const peg$c42 = "r";
-  const peg$c43 = peg$literalExpectation("r", false);
-  const peg$c44 = function(v: any): any { return ["r", v]; };
-  const peg$c45 = "i";
-  const peg$c46 = peg$literalExpectation("i", false);
-  const peg$c47 = function(v: any): any { return ["i", v]; };
-  const peg$c48 = "i64";
-  const peg$c49 = peg$literalExpectation("i64", false);
-  const peg$c50 = function(v: any): any { return ["i64", v]; };
-  const peg$c51 = "b";
-  const peg$c52 = peg$literalExpectation("b", false);
-  const peg$c53 = "yes";
-  const peg$c54 = peg$literalExpectation("yes", false);
-  const peg$c55 = "no";
-  const peg$c56 = peg$literalExpectation("no", false);
-  const peg$c57 = "on";
-  const peg$c58 = peg$literalExpectation("on", false);
-  const peg$c59 = "off";
-  const peg$c60 = peg$literalExpectation("off", false);
-  const peg$c61 = "true";
-  const peg$c62 = peg$literalExpectation("true", false);
-  const peg$c63 = "false";
-  const peg$c64 = peg$literalExpectation("false", false);
-  const peg$c65 = "1";
-  const peg$c66 = peg$literalExpectation("1", false);
-  const peg$c67 = "0";
-  const peg$c68 = peg$literalExpectation("0", false);
-  const peg$c69 = function(v: any): any { return ["b", v]; };
-  const peg$c70 = "p2";
-  const peg$c71 = peg$literalExpectation("p2", false);
-  const peg$c72 = ",";
-  const peg$c73 = peg$literalExpectation(",", false);
-  const peg$c74 = function(n0: any, n1: any): any { return ["p2", [n0, n1]]; };
-  const peg$c75 = "p3";
-  const peg$c76 = peg$literalExpectation("p3", false);
-  const peg$c77 = function(n0: any, n1: any, n2: any): any { return ["p3", [n0, n1, n2]]; };
-  const peg$c78 = "p4";
-  const peg$c79 = peg$literalExpectation("p4", false);
-  const peg$c80 = function(n0: any, n1: any, n2: any, n3: any): any { return ["p4", [n0, n1, n2, n3]]; };
-  const peg$c81 = "ip2";
-  const peg$c82 = peg$literalExpectation("ip2", false);
-  const peg$c83 = function(n0: any, n1: any): any { return ["ip2", [n0, n1]]; };
-  const peg$c84 = "ip3";
-  const peg$c85 = peg$literalExpectation("ip3", false);
-  const peg$c86 = function(n0: any, n1: any, n2: any): any { return ["ip3", [n0, n1, n2]]; };
-  const peg$c87 = "ip4";
-  const peg$c88 = peg$literalExpectation("ip4", false);
-  const peg$c89 = function(n0: any, n1: any, n2: any, n3: any): any { return ["ip4", [n0, n1, n2, n3]]; };
-  const peg$c90 = "c";
-  const peg$c91 = peg$literalExpectation("c", false);
-  const peg$c92 = function(n0: any, n1: any, n2: any, n3: any): any { return ["c", [n0, n1, n2, n3]]; };
-  const peg$c93 = "m";
-  const peg$c94 = peg$literalExpectation("m", false);
-  const peg$c95 = "[";
-  const peg$c96 = peg$literalExpectation("[", false);
-  const peg$c97 = "]";
-  const peg$c98 = peg$literalExpectation("]", false);
-  const peg$c99 = function(row0: any, row1: any, row2: any, row3: any): any { return ["m", [row0, row1, row2, row3]]; };
-  const peg$c100 = function(n0: any, n1: any, n2: any): any { return [n0, n1, n2]; };
-  const peg$c101 = peg$otherExpectation("Comment");
-  const peg$c102 = function(indent: any, c: any): any { return {
+  const peg$c18 = /^[ \t]/;
+  const peg$c19 = peg$classExpectation([" ", "\t"], false, false);
+  const peg$c20 = peg$otherExpectation("Value of Param");
+  const peg$c21 = peg$otherExpectation("Name of Param or Block");
+  const peg$c22 = "\"";
+  const peg$c23 = peg$literalExpectation("\"", false);
+  const peg$c24 = function(n: any): any { return '"'+n+'"'; };
+  const peg$c25 = function(): any { return text(); };
+  const peg$c26 = /^[a-zA-Z0-9_]/;
+  const peg$c27 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_"], false, false);
+  const peg$c28 = /^[a-zA-Z0-9_.\-]/;
+  const peg$c29 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"], "_", ".", "-"], false, false);
+  const peg$c30 = ":";
+  const peg$c31 = peg$literalExpectation(":", false);
+  const peg$c32 = function(value: any): any { return value; };
+  const peg$c33 = peg$otherExpectation("ParamValue");
+  const peg$c34 = "=";
+  const peg$c35 = peg$literalExpectation("=", false);
+  const peg$c36 = function(t: any, s: any): any { return '"'+s+'"'; };
+  const peg$c37 = function(t: any, v: any): any { return { value: [t, v] }; };
+  const peg$c38 = peg$otherExpectation("ParamType");
+  const peg$c39 = /^[a-zA-Z0-9]/;
+  const peg$c40 = peg$classExpectation([["a", "z"], ["A", "Z"], ["0", "9"]], false, false);
+  const peg$c41 = peg$otherExpectation("ParamAnyValue");
+  const peg$c42 = "t";
+  const peg$c43 = peg$literalExpectation("t", false);
+  const peg$c44 = function(v: any): any { return typedValue("t", v); };
+  const peg$c45 = "r";
+  const peg$c46 = peg$literalExpectation("r", false);
+  const peg$c47 = function(v: any): any { return typedValue("r", v); };
+  const peg$c48 = "i";
+  const peg$c49 = peg$literalExpectation("i", false);
+  const peg$c50 = function(v: any): any { return typedValue("i", v); };
+  const peg$c51 = "i64";
+  const peg$c52 = peg$literalExpectation("i64", false);
+  const peg$c53 = function(v: any): any { return typedValue("i64", v); };
+  const peg$c54 = "b";
+  const peg$c55 = peg$literalExpectation("b", false);
+  const peg$c56 = function(v: any): any { return typedValue("b", v); };
+  const peg$c57 = "p2";
+  const peg$c58 = peg$literalExpectation("p2", false);
+  const peg$c59 = function(v: any): any { return typedValue("p2", v); };
+  const peg$c60 = "p3";
+  const peg$c61 = peg$literalExpectation("p3", false);
+  const peg$c62 = function(v: any): any { return typedValue("p3", v); };
+  const peg$c63 = "p4";
+  const peg$c64 = peg$literalExpectation("p4", false);
+  const peg$c65 = function(v: any): any { return typedValue("p4", v); };
+  const peg$c66 = "ip2";
+  const peg$c67 = peg$literalExpectation("ip2", false);
+  const peg$c68 = function(v: any): any { return typedValue("ip2", v); };
+  const peg$c69 = "ip3";
+  const peg$c70 = peg$literalExpectation("ip3", false);
+  const peg$c71 = function(v: any): any { return typedValue("ip3", v); };
+  const peg$c72 = "ip4";
+  const peg$c73 = peg$literalExpectation("ip4", false);
+  const peg$c74 = function(v: any): any { return typedValue("ip4", v); };
+  const peg$c75 = "c";
+  const peg$c76 = peg$literalExpectation("c", false);
+  const peg$c77 = function(v: any): any { return typedValue("c", v); };
+  const peg$c78 = "m";
+  const peg$c79 = peg$literalExpectation("m", false);
+  const peg$c80 = function(v: any): any { return typedValue("m", v); };
+  const peg$c81 = function(s: any): any { return ['"'+s+'"', s]; };
+  const peg$c82 = function(): any { return [text(), '']; };
+  const peg$c83 = function(): any { return [text(), text()]; };
+  const peg$c84 = function(n: any): any { return [text(), n]; };
+  const peg$c85 = function(n: any): any {
+    if (n < -2147483648 || n > 2147483647)
+      return invalidValue("Integer value '" + text() + "' is out of range");
+    return [text(), n];
+  };
+  const peg$c86 = "yes";
+  const peg$c87 = peg$literalExpectation("yes", false);
+  const peg$c88 = "no";
+  const peg$c89 = peg$literalExpectation("no", false);
+  const peg$c90 = "on";
+  const peg$c91 = peg$literalExpectation("on", false);
+  const peg$c92 = "off";
+  const peg$c93 = peg$literalExpectation("off", false);
+  const peg$c94 = "true";
+  const peg$c95 = peg$literalExpectation("true", false);
+  const peg$c96 = "false";
+  const peg$c97 = peg$literalExpectation("false", false);
+  const peg$c98 = "1";
+  const peg$c99 = peg$literalExpectation("1", false);
+  const peg$c100 = "0";
+  const peg$c101 = peg$literalExpectation("0", false);
+  const peg$c102 = function(v: any): any { return [text(), v === "yes" || v === "on" || v === "true" || v === "1"]; };
+  const peg$c103 = ",";
+  const peg$c104 = peg$literalExpectation(",", false);
+  const peg$c105 = function(n0: any, n1: any): any { return [text(), [n0, n1]]; };
+  const peg$c106 = function(p: any): any { return [text(), p]; };
+  const peg$c107 = function(n0: any, n1: any, n2: any, n3: any): any { return [text(), [n0, n1, n2, n3]]; };
+  const peg$c108 = function(n0: any, n1: any, n2: any): any { return [text(), [n0, n1, n2]]; };
+  const peg$c109 = function(n0: any, n1: any, n2: any, n: any): any { return n; };
+  const peg$c110 = function(n0: any, n1: any, n2: any, n3: any): any {
+    var components = [n0, n1, n2].concat(n3 === null ? [] : [n3]);
+    for (var i = 0; i < components.length; i++)
+      if (components[i].invalid)
+        return components[i];
+    return [text(), components.map(function(v) { return v.value; }).concat(n3 === null ? [255] : [])];
+  };
+  const peg$c111 = peg$otherExpectation("ColorComponent");
+  const peg$c112 = function(n: any): any {
+    if (n < 0 || n > 255)
+      return invalidValue("Color component '" + text() + "' is out of range 0..255");
+    return { value: n };
+  };
+  const peg$c113 = "[";
+  const peg$c114 = peg$literalExpectation("[", false);
+  const peg$c115 = "]";
+  const peg$c116 = peg$literalExpectation("]", false);
+  const peg$c117 = function(row0: any, row1: any, row2: any, row3: any): any { return [text(), [row0, row1, row2, row3]]; };
+  const peg$c118 = function(n0: any, n1: any, n2: any): any { return [n0, n1, n2]; };
+  const peg$c119 = peg$otherExpectation("InvalidValue");
+  const peg$c120 = function(): any { return { invalid: true, text: text(), location: location() }; };
+  const peg$c121 = peg$otherExpectation("Comment");
+  const peg$c122 = function(indent: any, c: any): any { return {
       '_type': 'comment',
       value: {
         location: location(),
@@ -315,56 +350,68 @@ function peg$parse(input: string, options?: IParseOptions) {
       }
     };
   };
-  const peg$c103 = peg$otherExpectation("CommentLine");
-  const peg$c104 = "//";
-  const peg$c105 = peg$literalExpectation("//", false);
-  const peg$c106 = function(): any { return { format: 'line', value: text() }; };
-  const peg$c107 = peg$otherExpectation("CommentBlock");
-  const peg$c108 = "/*";
-  const peg$c109 = peg$literalExpectation("/*", false);
-  const peg$c110 = "*/";
-  const peg$c111 = peg$literalExpectation("*/", false);
-  const peg$c112 = function(): any { return { format: 'block', value: text() }; };
-  const peg$c113 = peg$otherExpectation("Empty line");
-  const peg$c114 = function(): any { return { '_type': 'empty line', value: { location: location() } }; };
-  const peg$c115 = peg$otherExpectation("Strings");
-  const peg$c116 = peg$otherExpectation("QuotedString");
-  const peg$c117 = peg$otherExpectation("String");
-  const peg$c118 = /^[^"]/;
-  const peg$c119 = peg$classExpectation(["\""], true, false);
-  const peg$c120 = peg$otherExpectation("SString");
-  const peg$c121 = /^[^']/;
-  const peg$c122 = peg$classExpectation(["'"], true, false);
-  const peg$c123 = peg$otherExpectation("Empty String");
-  const peg$c124 = "'";
-  const peg$c125 = peg$literalExpectation("'", false);
-  const peg$c126 = function(): any { return ''; };
-  const peg$c127 = /^[\r\n} ]/;
-  const peg$c128 = peg$classExpectation(["\r", "\n", "}", " "], false, false);
-  const peg$c129 = function(s: any): any { return s; };
-  const peg$c130 = peg$otherExpectation("RealNumber");
-  const peg$c131 = /^[0-9.\-]/;
-  const peg$c132 = peg$classExpectation([["0", "9"], ".", "-"], false, false);
-  const peg$c133 = peg$otherExpectation("IntNumber");
-  const peg$c134 = /^[0-9\-]/;
-  const peg$c135 = peg$classExpectation([["0", "9"], "-"], false, false);
-  const peg$c136 = peg$anyExpectation();
-  const peg$c137 = peg$otherExpectation("Whitespace");
-  const peg$c138 = /^[ \r\n\t]/;
-  const peg$c139 = peg$classExpectation([" ", "\r", "\n", "\t"], false, false);
-  const peg$c140 = function(): any { return null; };
-  const peg$c141 = peg$otherExpectation("Spaces");
-  const peg$c142 = peg$otherExpectation("EndOfLine");
-  const peg$c143 = /^[\r\n]/;
-  const peg$c144 = peg$classExpectation(["\r", "\n"], false, false);
-  const peg$c145 = function(): any { return "EOL"; };
-  const peg$c146 = peg$otherExpectation("EndOfParam");
-  const peg$c147 = ";";
-  const peg$c148 = peg$literalExpectation(";", false);
-  const peg$c149 = peg$otherExpectation("EndOfParamRelaxed");
-  const peg$c150 = "";
-  const peg$c151 = peg$otherExpectation("EndOfFile");
-  const peg$c152 = function(): any { return "EOF"; };
+  const peg$c123 = peg$otherExpectation("CommentLine");
+  const peg$c124 = "//";
+  const peg$c125 = peg$literalExpectation("//", false);
+  const peg$c126 = function(): any { return { format: 'line', value: text() }; };
+  const peg$c127 = peg$otherExpectation("CommentBlock");
+  const peg$c128 = "/*";
+  const peg$c129 = peg$literalExpectation("/*", false);
+  const peg$c130 = "*/";
+  const peg$c131 = peg$literalExpectation("*/", false);
+  const peg$c132 = function(): any { return { format: 'block', value: text() }; };
+  const peg$c133 = peg$otherExpectation("Empty line");
+  const peg$c134 = function(): any { return { '_type': 'empty line', value: { location: location() } }; };
+  const peg$c135 = peg$otherExpectation("Strings");
+  const peg$c136 = peg$otherExpectation("QuotedString");
+  const peg$c137 = peg$otherExpectation("String");
+  const peg$c138 = /^[^"]/;
+  const peg$c139 = peg$classExpectation(["\""], true, false);
+  const peg$c140 = peg$otherExpectation("SString");
+  const peg$c141 = /^[^']/;
+  const peg$c142 = peg$classExpectation(["'"], true, false);
+  const peg$c143 = peg$otherExpectation("Empty String");
+  const peg$c144 = "'";
+  const peg$c145 = peg$literalExpectation("'", false);
+  const peg$c146 = function(): any { return ''; };
+  const peg$c147 = /^[\r\n} ]/;
+  const peg$c148 = peg$classExpectation(["\r", "\n", "}", " "], false, false);
+  const peg$c149 = function(s: any): any { return s; };
+  const peg$c150 = peg$otherExpectation("RealNumber");
+  const peg$c151 = /^[+\-]/;
+  const peg$c152 = peg$classExpectation(["+", "-"], false, false);
+  const peg$c153 = /^[0-9]/;
+  const peg$c154 = peg$classExpectation([["0", "9"]], false, false);
+  const peg$c155 = ".";
+  const peg$c156 = peg$literalExpectation(".", false);
+  const peg$c157 = /^[eE]/;
+  const peg$c158 = peg$classExpectation(["e", "E"], false, false);
+  const peg$c159 = function(): any { return parseFloat(text()); };
+  const peg$c160 = peg$otherExpectation("IntNumber");
+  const peg$c161 = "0x";
+  const peg$c162 = peg$literalExpectation("0x", true);
+  const peg$c163 = /^[0-9a-fA-F]/;
+  const peg$c164 = peg$classExpectation([["0", "9"], ["a", "f"], ["A", "F"]], false, false);
+  const peg$c165 = /^[.0-9a-zA-Z_]/;
+  const peg$c166 = peg$classExpectation([".", ["0", "9"], ["a", "z"], ["A", "Z"], "_"], false, false);
+  const peg$c167 = function(): any { return parseInt(text()); };
+  const peg$c168 = peg$anyExpectation();
+  const peg$c169 = peg$otherExpectation("Whitespace");
+  const peg$c170 = /^[ \r\n\t]/;
+  const peg$c171 = peg$classExpectation([" ", "\r", "\n", "\t"], false, false);
+  const peg$c172 = function(): any { return null; };
+  const peg$c173 = peg$otherExpectation("Spaces");
+  const peg$c174 = peg$otherExpectation("EndOfLine");
+  const peg$c175 = /^[\r\n]/;
+  const peg$c176 = peg$classExpectation(["\r", "\n"], false, false);
+  const peg$c177 = function(): any { return "EOL"; };
+  const peg$c178 = peg$otherExpectation("EndOfParam");
+  const peg$c179 = ";";
+  const peg$c180 = peg$literalExpectation(";", false);
+  const peg$c181 = peg$otherExpectation("EndOfParamRelaxed");
+  const peg$c182 = "";
+  const peg$c183 = peg$otherExpectation("EndOfFile");
+  const peg$c184 = function(): any { return "EOF"; };
 
   let peg$currPos = 0;
   let peg$savedPos = 0;
@@ -511,9 +558,9 @@ function peg$parse(input: string, options?: IParseOptions) {
   }
 
   function peg$parseDataBlock(): any {
-    let s0, s1;
+    let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 0;
+    const key = peg$currPos * 70 + 0;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -523,7 +570,12 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    s1 = peg$parseDataBlockElements();
+    s1 = [];
+    s2 = peg$parseRootElement();
+    while (s2 !== peg$FAILED) {
+      s1.push(s2);
+      s2 = peg$parseRootElement();
+    }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
       s1 = peg$c0(s1);
@@ -535,10 +587,32 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
+  function peg$parseRootElement(): any {
+    let s0;
+
+    const key = peg$currPos * 70 + 1;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$parseDataBlockElement();
+    if (s0 === peg$FAILED) {
+      s0 = peg$parseUnexpectedBrace();
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
   function peg$parseDataBlockElements(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 1;
+    const key = peg$currPos * 70 + 2;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -577,7 +651,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseDataBlockElement(): any {
     let s0;
 
-    const key = peg$currPos * 52 + 2;
+    const key = peg$currPos * 70 + 3;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -597,6 +671,9 @@ function peg$parse(input: string, options?: IParseOptions) {
             s0 = peg$parseEmptyLine();
             if (s0 === peg$FAILED) {
               s0 = peg$parseSpaces();
+              if (s0 === peg$FAILED) {
+                s0 = peg$parseUnexpected();
+              }
             }
           }
         }
@@ -611,7 +688,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseBlock(): any {
     let s0, s1, s2, s3, s4, s5, s6, s7;
 
-    const key = peg$currPos * 52 + 3;
+    const key = peg$currPos * 70 + 4;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -633,13 +710,7 @@ function peg$parse(input: string, options?: IParseOptions) {
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            if (input.charCodeAt(peg$currPos) === 123) {
-              s5 = peg$c3;
-              peg$currPos++;
-            } else {
-              s5 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c4); }
-            }
+            s5 = peg$parseOpenBrace();
             if (s5 !== peg$FAILED) {
               s6 = [];
               s7 = peg$parseDataBlockElements();
@@ -649,15 +720,18 @@ function peg$parse(input: string, options?: IParseOptions) {
               }
               if (s6 !== peg$FAILED) {
                 if (input.charCodeAt(peg$currPos) === 125) {
-                  s7 = peg$c5;
+                  s7 = peg$c3;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c6); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c4); }
+                }
+                if (s7 === peg$FAILED) {
+                  s7 = null;
                 }
                 if (s7 !== peg$FAILED) {
                   peg$savedPos = s0;
-                  s1 = peg$c7(s1, s3, s6);
+                  s1 = peg$c5(s1, s3, s5, s6, s7);
                   s0 = s1;
                 } else {
                   peg$currPos = s0;
@@ -698,10 +772,200 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
+  function peg$parseOpenBrace(): any {
+    let s0, s1;
+
+    const key = peg$currPos * 70 + 5;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 123) {
+      s1 = peg$c6;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c7); }
+    }
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c8();
+    }
+    s0 = s1;
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseUnexpected(): any {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 70 + 6;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    s1 = [];
+    s2 = peg$currPos;
+    s3 = peg$currPos;
+    peg$silentFails++;
+    s4 = peg$parseEOL();
+    peg$silentFails--;
+    if (s4 === peg$FAILED) {
+      s3 = undefined;
+    } else {
+      peg$currPos = s3;
+      s3 = peg$FAILED;
+    }
+    if (s3 !== peg$FAILED) {
+      s4 = peg$currPos;
+      peg$silentFails++;
+      if (input.charCodeAt(peg$currPos) === 125) {
+        s5 = peg$c3;
+        peg$currPos++;
+      } else {
+        s5 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c4); }
+      }
+      peg$silentFails--;
+      if (s5 === peg$FAILED) {
+        s4 = undefined;
+      } else {
+        peg$currPos = s4;
+        s4 = peg$FAILED;
+      }
+      if (s4 !== peg$FAILED) {
+        s5 = peg$parseChar();
+        if (s5 !== peg$FAILED) {
+          s3 = [s3, s4, s5];
+          s2 = s3;
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s2;
+      s2 = peg$FAILED;
+    }
+    if (s2 !== peg$FAILED) {
+      while (s2 !== peg$FAILED) {
+        s1.push(s2);
+        s2 = peg$currPos;
+        s3 = peg$currPos;
+        peg$silentFails++;
+        s4 = peg$parseEOL();
+        peg$silentFails--;
+        if (s4 === peg$FAILED) {
+          s3 = undefined;
+        } else {
+          peg$currPos = s3;
+          s3 = peg$FAILED;
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$currPos;
+          peg$silentFails++;
+          if (input.charCodeAt(peg$currPos) === 125) {
+            s5 = peg$c3;
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c4); }
+          }
+          peg$silentFails--;
+          if (s5 === peg$FAILED) {
+            s4 = undefined;
+          } else {
+            peg$currPos = s4;
+            s4 = peg$FAILED;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseChar();
+            if (s5 !== peg$FAILED) {
+              s3 = [s3, s4, s5];
+              s2 = s3;
+            } else {
+              peg$currPos = s2;
+              s2 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s2;
+            s2 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
+        }
+      }
+    } else {
+      s1 = peg$FAILED;
+    }
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c10();
+    }
+    s0 = s1;
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c9); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseUnexpectedBrace(): any {
+    let s0, s1;
+
+    const key = peg$currPos * 70 + 7;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 125) {
+      s1 = peg$c3;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c4); }
+    }
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c11();
+    }
+    s0 = s1;
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
   function peg$parseInclude(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 4;
+    const key = peg$currPos * 70 + 8;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -712,12 +976,12 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 7) === peg$c9) {
-      s1 = peg$c9;
+    if (input.substr(peg$currPos, 7) === peg$c13) {
+      s1 = peg$c13;
       peg$currPos += 7;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c10); }
+      if (peg$silentFails === 0) { peg$fail(peg$c14); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
@@ -725,7 +989,7 @@ function peg$parse(input: string, options?: IParseOptions) {
         s3 = peg$parseStrings();
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c11(s3);
+          s1 = peg$c15(s3);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -742,7 +1006,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c8); }
+      if (peg$silentFails === 0) { peg$fail(peg$c12); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -753,7 +1017,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseParam(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 5;
+    const key = peg$currPos * 70 + 9;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -775,7 +1039,7 @@ function peg$parse(input: string, options?: IParseOptions) {
             s5 = peg$parseEOPR();
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c13(s1, s2, s4);
+              s1 = peg$c17(s1, s2, s4);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -800,7 +1064,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c12); }
+      if (peg$silentFails === 0) { peg$fail(peg$c16); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -811,7 +1075,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseIndent(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 6;
+    const key = peg$currPos * 70 + 10;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -822,26 +1086,26 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     s0 = peg$currPos;
     s1 = [];
-    if (peg$c14.test(input.charAt(peg$currPos))) {
+    if (peg$c18.test(input.charAt(peg$currPos))) {
       s2 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c15); }
+      if (peg$silentFails === 0) { peg$fail(peg$c19); }
     }
     while (s2 !== peg$FAILED) {
       s1.push(s2);
-      if (peg$c14.test(input.charAt(peg$currPos))) {
+      if (peg$c18.test(input.charAt(peg$currPos))) {
         s2 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c15); }
+        if (peg$silentFails === 0) { peg$fail(peg$c19); }
       }
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c16();
+      s1 = peg$c8();
     }
     s0 = s1;
 
@@ -853,7 +1117,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseValue(): any {
     let s0, s1;
 
-    const key = peg$currPos * 52 + 7;
+    const key = peg$currPos * 70 + 11;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -867,7 +1131,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c17); }
+      if (peg$silentFails === 0) { peg$fail(peg$c20); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -878,7 +1142,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseName(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 8;
+    const key = peg$currPos * 70 + 12;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -892,25 +1156,25 @@ function peg$parse(input: string, options?: IParseOptions) {
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 34) {
-        s1 = peg$c19;
+        s1 = peg$c22;
         peg$currPos++;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c20); }
+        if (peg$silentFails === 0) { peg$fail(peg$c23); }
       }
       if (s1 !== peg$FAILED) {
         s2 = peg$parseString();
         if (s2 !== peg$FAILED) {
           if (input.charCodeAt(peg$currPos) === 34) {
-            s3 = peg$c19;
+            s3 = peg$c22;
             peg$currPos++;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c20); }
+            if (peg$silentFails === 0) { peg$fail(peg$c23); }
           }
           if (s3 !== peg$FAILED) {
             peg$savedPos = s0;
-            s1 = peg$c21(s2);
+            s1 = peg$c24(s2);
             s0 = s1;
           } else {
             peg$currPos = s0;
@@ -928,7 +1192,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c18); }
+      if (peg$silentFails === 0) { peg$fail(peg$c21); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -939,7 +1203,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseNameString(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 9;
+    const key = peg$currPos * 70 + 13;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -957,7 +1221,7 @@ function peg$parse(input: string, options?: IParseOptions) {
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c22();
+        s1 = peg$c25();
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -976,7 +1240,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseNameFirstPart(): any {
     let s0, s1;
 
-    const key = peg$currPos * 52 + 10;
+    const key = peg$currPos * 70 + 14;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -986,22 +1250,22 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = [];
-    if (peg$c23.test(input.charAt(peg$currPos))) {
+    if (peg$c26.test(input.charAt(peg$currPos))) {
       s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c24); }
+      if (peg$silentFails === 0) { peg$fail(peg$c27); }
     }
     if (s1 !== peg$FAILED) {
       while (s1 !== peg$FAILED) {
         s0.push(s1);
-        if (peg$c23.test(input.charAt(peg$currPos))) {
+        if (peg$c26.test(input.charAt(peg$currPos))) {
           s1 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c24); }
+          if (peg$silentFails === 0) { peg$fail(peg$c27); }
         }
       }
     } else {
@@ -1016,7 +1280,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseNameSecondPart(): any {
     let s0, s1;
 
-    const key = peg$currPos * 52 + 11;
+    const key = peg$currPos * 70 + 15;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1026,22 +1290,22 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = [];
-    if (peg$c25.test(input.charAt(peg$currPos))) {
+    if (peg$c28.test(input.charAt(peg$currPos))) {
       s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c26); }
+      if (peg$silentFails === 0) { peg$fail(peg$c29); }
     }
     if (s1 !== peg$FAILED) {
       while (s1 !== peg$FAILED) {
         s0.push(s1);
-        if (peg$c25.test(input.charAt(peg$currPos))) {
+        if (peg$c28.test(input.charAt(peg$currPos))) {
           s1 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c26); }
+          if (peg$silentFails === 0) { peg$fail(peg$c29); }
         }
       }
     } else {
@@ -1056,7 +1320,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseTypeWithValue(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 12;
+    const key = peg$currPos * 70 + 16;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1067,19 +1331,58 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 58) {
-      s1 = peg$c27;
+      s1 = peg$c30;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c28); }
+      if (peg$silentFails === 0) { peg$fail(peg$c31); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        s3 = peg$parseParamValue();
+        s3 = peg$parseStringValue();
+        if (s3 === peg$FAILED) {
+          s3 = peg$parseRealValue();
+          if (s3 === peg$FAILED) {
+            s3 = peg$parseIntValue();
+            if (s3 === peg$FAILED) {
+              s3 = peg$parseInt64Value();
+              if (s3 === peg$FAILED) {
+                s3 = peg$parseBoolValue();
+                if (s3 === peg$FAILED) {
+                  s3 = peg$parsePoint2Value();
+                  if (s3 === peg$FAILED) {
+                    s3 = peg$parsePoint3Value();
+                    if (s3 === peg$FAILED) {
+                      s3 = peg$parsePoint4Value();
+                      if (s3 === peg$FAILED) {
+                        s3 = peg$parseIPoint2Value();
+                        if (s3 === peg$FAILED) {
+                          s3 = peg$parseIPoint3Value();
+                          if (s3 === peg$FAILED) {
+                            s3 = peg$parseIPoint4Value();
+                            if (s3 === peg$FAILED) {
+                              s3 = peg$parseColorValue();
+                              if (s3 === peg$FAILED) {
+                                s3 = peg$parseTMatrixValue();
+                                if (s3 === peg$FAILED) {
+                                  s3 = peg$parseParamValue();
+                                }
+                              }
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c29(s3);
+          s1 = peg$c32(s3);
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -1102,7 +1405,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseParamValue(): any {
     let s0, s1, s2, s3, s4, s5, s6;
 
-    const key = peg$currPos * 52 + 13;
+    const key = peg$currPos * 70 + 17;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1118,20 +1421,23 @@ function peg$parse(input: string, options?: IParseOptions) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
             s5 = peg$currPos;
             s6 = peg$parseQuotedString();
             if (s6 !== peg$FAILED) {
               peg$savedPos = s5;
-              s6 = peg$c33(s1, s6);
+              s6 = peg$c36(s1, s6);
             }
             s5 = s6;
             if (s5 === peg$FAILED) {
@@ -1139,7 +1445,7 @@ function peg$parse(input: string, options?: IParseOptions) {
             }
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c34(s1, s5);
+              s1 = peg$c37(s1, s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1164,7 +1470,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c30); }
+      if (peg$silentFails === 0) { peg$fail(peg$c33); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -1175,7 +1481,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseParamType(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 14;
+    const key = peg$currPos * 70 + 18;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1187,22 +1493,22 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     s1 = [];
-    if (peg$c36.test(input.charAt(peg$currPos))) {
+    if (peg$c39.test(input.charAt(peg$currPos))) {
       s2 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c37); }
+      if (peg$silentFails === 0) { peg$fail(peg$c40); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
         s1.push(s2);
-        if (peg$c36.test(input.charAt(peg$currPos))) {
+        if (peg$c39.test(input.charAt(peg$currPos))) {
           s2 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c37); }
+          if (peg$silentFails === 0) { peg$fail(peg$c40); }
         }
       }
     } else {
@@ -1210,13 +1516,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c22();
+      s1 = peg$c25();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c35); }
+      if (peg$silentFails === 0) { peg$fail(peg$c38); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -1227,7 +1533,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseParamAnyValue(): any {
     let s0, s1, s2, s3, s4;
 
-    const key = peg$currPos * 52 + 15;
+    const key = peg$currPos * 70 + 19;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1292,13 +1598,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c22();
+      s1 = peg$c25();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c38); }
+      if (peg$silentFails === 0) { peg$fail(peg$c41); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -1309,7 +1615,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseStringValue(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 16;
+    const key = peg$currPos * 70 + 20;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1320,29 +1626,32 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 116) {
-      s1 = peg$c39;
+      s1 = peg$c42;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c40); }
+      if (peg$silentFails === 0) { peg$fail(peg$c43); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseStrings();
+            s5 = peg$parseStringData();
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c41(s5);
+              s1 = peg$c44(s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1373,7 +1682,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseRealValue(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 17;
+    const key = peg$currPos * 70 + 21;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1384,29 +1693,35 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 114) {
-      s1 = peg$c42;
+      s1 = peg$c45;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c43); }
+      if (peg$silentFails === 0) { peg$fail(peg$c46); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseNumber();
+            s5 = peg$parseRealData();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c44(s5);
+              s1 = peg$c47(s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1437,7 +1752,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseIntValue(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 18;
+    const key = peg$currPos * 70 + 22;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1448,29 +1763,35 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 105) {
-      s1 = peg$c45;
+      s1 = peg$c48;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c46); }
+      if (peg$silentFails === 0) { peg$fail(peg$c49); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseIntNumber();
+            s5 = peg$parseIntData();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c47(s5);
+              s1 = peg$c50(s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1501,7 +1822,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseInt64Value(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 19;
+    const key = peg$currPos * 70 + 23;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1511,30 +1832,36 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 3) === peg$c48) {
-      s1 = peg$c48;
+    if (input.substr(peg$currPos, 3) === peg$c51) {
+      s1 = peg$c51;
       peg$currPos += 3;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c49); }
+      if (peg$silentFails === 0) { peg$fail(peg$c52); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseIntNumber();
+            s5 = peg$parseInt64Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c50(s5);
+              s1 = peg$c53(s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1565,7 +1892,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseBoolValue(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 20;
+    const key = peg$currPos * 70 + 24;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1576,98 +1903,35 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 98) {
-      s1 = peg$c51;
+      s1 = peg$c54;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c52); }
+      if (peg$silentFails === 0) { peg$fail(peg$c55); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            if (input.substr(peg$currPos, 3) === peg$c53) {
-              s5 = peg$c53;
-              peg$currPos += 3;
-            } else {
-              s5 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c54); }
-            }
+            s5 = peg$parseBoolData();
             if (s5 === peg$FAILED) {
-              if (input.substr(peg$currPos, 2) === peg$c55) {
-                s5 = peg$c55;
-                peg$currPos += 2;
-              } else {
-                s5 = peg$FAILED;
-                if (peg$silentFails === 0) { peg$fail(peg$c56); }
-              }
-              if (s5 === peg$FAILED) {
-                if (input.substr(peg$currPos, 2) === peg$c57) {
-                  s5 = peg$c57;
-                  peg$currPos += 2;
-                } else {
-                  s5 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c58); }
-                }
-                if (s5 === peg$FAILED) {
-                  if (input.substr(peg$currPos, 3) === peg$c59) {
-                    s5 = peg$c59;
-                    peg$currPos += 3;
-                  } else {
-                    s5 = peg$FAILED;
-                    if (peg$silentFails === 0) { peg$fail(peg$c60); }
-                  }
-                  if (s5 === peg$FAILED) {
-                    if (input.substr(peg$currPos, 4) === peg$c61) {
-                      s5 = peg$c61;
-                      peg$currPos += 4;
-                    } else {
-                      s5 = peg$FAILED;
-                      if (peg$silentFails === 0) { peg$fail(peg$c62); }
-                    }
-                    if (s5 === peg$FAILED) {
-                      if (input.substr(peg$currPos, 5) === peg$c63) {
-                        s5 = peg$c63;
-                        peg$currPos += 5;
-                      } else {
-                        s5 = peg$FAILED;
-                        if (peg$silentFails === 0) { peg$fail(peg$c64); }
-                      }
-                      if (s5 === peg$FAILED) {
-                        if (input.charCodeAt(peg$currPos) === 49) {
-                          s5 = peg$c65;
-                          peg$currPos++;
-                        } else {
-                          s5 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c66); }
-                        }
-                        if (s5 === peg$FAILED) {
-                          if (input.charCodeAt(peg$currPos) === 48) {
-                            s5 = peg$c67;
-                            peg$currPos++;
-                          } else {
-                            s5 = peg$FAILED;
-                            if (peg$silentFails === 0) { peg$fail(peg$c68); }
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
+              s5 = peg$parseInvalidValue();
             }
             if (s5 !== peg$FAILED) {
               peg$savedPos = s0;
-              s1 = peg$c69(s5);
+              s1 = peg$c56(s5);
               s0 = s1;
             } else {
               peg$currPos = s0;
@@ -1696,9 +1960,9 @@ function peg$parse(input: string, options?: IParseOptions) {
   }
 
   function peg$parsePoint2Value(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+    let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 21;
+    const key = peg$currPos * 70 + 25;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1708,61 +1972,37 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 2) === peg$c70) {
-      s1 = peg$c70;
+    if (input.substr(peg$currPos, 2) === peg$c57) {
+      s1 = peg$c57;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c71); }
+      if (peg$silentFails === 0) { peg$fail(peg$c58); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseNumber();
+            s5 = peg$parsePoint2Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
             if (s5 !== peg$FAILED) {
-              s6 = peg$parse_();
-              if (s6 !== peg$FAILED) {
-                if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
-                  peg$currPos++;
-                } else {
-                  s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                }
-                if (s7 !== peg$FAILED) {
-                  s8 = peg$parse_();
-                  if (s8 !== peg$FAILED) {
-                    s9 = peg$parseNumber();
-                    if (s9 !== peg$FAILED) {
-                      peg$savedPos = s0;
-                      s1 = peg$c74(s5, s9);
-                      s0 = s1;
-                    } else {
-                      peg$currPos = s0;
-                      s0 = peg$FAILED;
-                    }
-                  } else {
-                    peg$currPos = s0;
-                    s0 = peg$FAILED;
-                  }
-                } else {
-                  peg$currPos = s0;
-                  s0 = peg$FAILED;
-                }
-              } else {
-                peg$currPos = s0;
-                s0 = peg$FAILED;
-              }
+              peg$savedPos = s0;
+              s1 = peg$c59(s5);
+              s0 = s1;
             } else {
               peg$currPos = s0;
               s0 = peg$FAILED;
@@ -1790,9 +2030,9 @@ function peg$parse(input: string, options?: IParseOptions) {
   }
 
   function peg$parsePoint3Value(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
+    let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 22;
+    const key = peg$currPos * 70 + 26;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1802,91 +2042,37 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 2) === peg$c75) {
-      s1 = peg$c75;
+    if (input.substr(peg$currPos, 2) === peg$c60) {
+      s1 = peg$c60;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c76); }
+      if (peg$silentFails === 0) { peg$fail(peg$c61); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+          s3 = peg$c34;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
         }
         if (s3 !== peg$FAILED) {
-          s4 = peg$parse_();
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseNumber();
+            s5 = peg$parsePoint3Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
             if (s5 !== peg$FAILED) {
-              s6 = peg$parse_();
-              if (s6 !== peg$FAILED) {
-                if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
-                  peg$currPos++;
-                } else {
-                  s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                }
-                if (s7 !== peg$FAILED) {
-                  s8 = peg$parse_();
-                  if (s8 !== peg$FAILED) {
-                    s9 = peg$parseNumber();
-                    if (s9 !== peg$FAILED) {
-                      s10 = peg$parse_();
-                      if (s10 !== peg$FAILED) {
-                        if (input.charCodeAt(peg$currPos) === 44) {
-                          s11 = peg$c72;
-                          peg$currPos++;
-                        } else {
-                          s11 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                        }
-                        if (s11 !== peg$FAILED) {
-                          s12 = peg$parse_();
-                          if (s12 !== peg$FAILED) {
-                            s13 = peg$parseNumber();
-                            if (s13 !== peg$FAILED) {
-                              peg$savedPos = s0;
-                              s1 = peg$c77(s5, s9, s13);
-                              s0 = s1;
-                            } else {
-                              peg$currPos = s0;
-                              s0 = peg$FAILED;
-                            }
-                          } else {
-                            peg$currPos = s0;
-                            s0 = peg$FAILED;
-                          }
-                        } else {
-                          peg$currPos = s0;
-                          s0 = peg$FAILED;
-                        }
-                      } else {
-                        peg$currPos = s0;
-                        s0 = peg$FAILED;
-                      }
-                    } else {
-                      peg$currPos = s0;
-                      s0 = peg$FAILED;
-                    }
-                  } else {
-                    peg$currPos = s0;
-                    s0 = peg$FAILED;
-                  }
-                } else {
-                  peg$currPos = s0;
-                  s0 = peg$FAILED;
-                }
-              } else {
-                peg$currPos = s0;
-                s0 = peg$FAILED;
-              }
+              peg$savedPos = s0;
+              s1 = peg$c62(s5);
+              s0 = s1;
             } else {
               peg$currPos = s0;
               s0 = peg$FAILED;
@@ -1914,9 +2100,9 @@ function peg$parse(input: string, options?: IParseOptions) {
   }
 
   function peg$parsePoint4Value(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15, s16, s17;
+    let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 23;
+    const key = peg$currPos * 70 + 27;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -1926,22 +2112,854 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 2) === peg$c78) {
-      s1 = peg$c78;
+    if (input.substr(peg$currPos, 2) === peg$c63) {
+      s1 = peg$c63;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c79); }
+      if (peg$silentFails === 0) { peg$fail(peg$c64); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 61) {
+          s3 = peg$c34;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parsePoint4Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c65(s5);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseIPoint2Value(): any {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 70 + 28;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.substr(peg$currPos, 3) === peg$c66) {
+      s1 = peg$c66;
+      peg$currPos += 3;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c67); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 61) {
+          s3 = peg$c34;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseIPoint2Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c68(s5);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseIPoint3Value(): any {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 70 + 29;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.substr(peg$currPos, 3) === peg$c69) {
+      s1 = peg$c69;
+      peg$currPos += 3;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c70); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+        if (input.charCodeAt(peg$currPos) === 61) {
+          s3 = peg$c34;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseIPoint3Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c71(s5);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseIPoint4Value(): any {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 70 + 30;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.substr(peg$currPos, 3) === peg$c72) {
+      s1 = peg$c72;
+      peg$currPos += 3;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c73); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 61) {
+          s3 = peg$c34;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseIPoint4Data();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c74(s5);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseColorValue(): any {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 70 + 31;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 99) {
+      s1 = peg$c75;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c76); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 61) {
+          s3 = peg$c34;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseColorData();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c77(s5);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseTMatrixValue(): any {
+    let s0, s1, s2, s3, s4, s5;
+
+    const key = peg$currPos * 70 + 32;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 109) {
+      s1 = peg$c78;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c79); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 61) {
+          s3 = peg$c34;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c35); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parseSpaces();
+          if (s4 === peg$FAILED) {
+            s4 = null;
+          }
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseTMatrixData();
+            if (s5 === peg$FAILED) {
+              s5 = peg$parseInvalidValue();
+            }
+            if (s5 !== peg$FAILED) {
+              peg$savedPos = s0;
+              s1 = peg$c80(s5);
+              s0 = s1;
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseStringData(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 33;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseQuotedString();
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c81(s1);
+    }
+    s0 = s1;
+    if (s0 === peg$FAILED) {
+      s0 = peg$currPos;
+      s1 = peg$parseEmptyString();
+      if (s1 !== peg$FAILED) {
+        s2 = peg$currPos;
+        peg$silentFails++;
+        s3 = peg$parseEOP();
+        peg$silentFails--;
+        if (s3 !== peg$FAILED) {
+          peg$currPos = s2;
+          s2 = undefined;
+        } else {
+          s2 = peg$FAILED;
+        }
+        if (s2 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c82();
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+      if (s0 === peg$FAILED) {
+        s0 = peg$currPos;
+        s1 = peg$parseParamAnyValue();
+        if (s1 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c83();
+        }
+        s0 = s1;
+      }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseRealData(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 34;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseNumber();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = peg$parseEOP();
+      peg$silentFails--;
+      if (s3 !== peg$FAILED) {
+        peg$currPos = s2;
+        s2 = undefined;
+      } else {
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c84(s1);
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseIntData(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 35;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseIntNumber();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = peg$parseEOP();
+      peg$silentFails--;
+      if (s3 !== peg$FAILED) {
+        peg$currPos = s2;
+        s2 = undefined;
+      } else {
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c85(s1);
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseInt64Data(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 36;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseIntNumber();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = peg$parseEOP();
+      peg$silentFails--;
+      if (s3 !== peg$FAILED) {
+        peg$currPos = s2;
+        s2 = undefined;
+      } else {
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c84(s1);
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseBoolData(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 37;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.substr(peg$currPos, 3) === peg$c86) {
+      s1 = peg$c86;
+      peg$currPos += 3;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c87); }
+    }
+    if (s1 === peg$FAILED) {
+      if (input.substr(peg$currPos, 2) === peg$c88) {
+        s1 = peg$c88;
+        peg$currPos += 2;
+      } else {
+        s1 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c89); }
+      }
+      if (s1 === peg$FAILED) {
+        if (input.substr(peg$currPos, 2) === peg$c90) {
+          s1 = peg$c90;
+          peg$currPos += 2;
+        } else {
+          s1 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c91); }
+        }
+        if (s1 === peg$FAILED) {
+          if (input.substr(peg$currPos, 3) === peg$c92) {
+            s1 = peg$c92;
+            peg$currPos += 3;
+          } else {
+            s1 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c93); }
+          }
+          if (s1 === peg$FAILED) {
+            if (input.substr(peg$currPos, 4) === peg$c94) {
+              s1 = peg$c94;
+              peg$currPos += 4;
+            } else {
+              s1 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c95); }
+            }
+            if (s1 === peg$FAILED) {
+              if (input.substr(peg$currPos, 5) === peg$c96) {
+                s1 = peg$c96;
+                peg$currPos += 5;
+              } else {
+                s1 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c97); }
+              }
+              if (s1 === peg$FAILED) {
+                if (input.charCodeAt(peg$currPos) === 49) {
+                  s1 = peg$c98;
+                  peg$currPos++;
+                } else {
+                  s1 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c99); }
+                }
+                if (s1 === peg$FAILED) {
+                  if (input.charCodeAt(peg$currPos) === 48) {
+                    s1 = peg$c100;
+                    peg$currPos++;
+                  } else {
+                    s1 = peg$FAILED;
+                    if (peg$silentFails === 0) { peg$fail(peg$c101); }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = peg$parseEOP();
+      peg$silentFails--;
+      if (s3 !== peg$FAILED) {
+        peg$currPos = s2;
+        s2 = undefined;
+      } else {
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c102(s1);
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parsePoint2Data(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7;
+
+    const key = peg$currPos * 70 + 38;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseNumber();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s3 = peg$c103;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = peg$parse_();
+          if (s4 !== peg$FAILED) {
+            s5 = peg$parseNumber();
+            if (s5 !== peg$FAILED) {
+              s6 = peg$currPos;
+              peg$silentFails++;
+              s7 = peg$parseEOP();
+              peg$silentFails--;
+              if (s7 !== peg$FAILED) {
+                peg$currPos = s6;
+                s6 = undefined;
+              } else {
+                s6 = peg$FAILED;
+              }
+              if (s6 !== peg$FAILED) {
+                peg$savedPos = s0;
+                s1 = peg$c105(s1, s5);
+                s0 = s1;
+              } else {
+                peg$currPos = s0;
+                s0 = peg$FAILED;
+              }
+            } else {
+              peg$currPos = s0;
+              s0 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s0;
+            s0 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parsePoint3Data(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 39;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parsePoint3();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      peg$silentFails++;
+      s3 = peg$parseEOP();
+      peg$silentFails--;
+      if (s3 !== peg$FAILED) {
+        peg$currPos = s2;
+        s2 = undefined;
+      } else {
+        s2 = peg$FAILED;
+      }
+      if (s2 !== peg$FAILED) {
+        peg$savedPos = s0;
+        s1 = peg$c106(s1);
+        s0 = s1;
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parsePoint4Data(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15;
+
+    const key = peg$currPos * 70 + 40;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    s1 = peg$parseNumber();
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parse_();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s3 = peg$c103;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
@@ -1951,11 +2969,11 @@ function peg$parse(input: string, options?: IParseOptions) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
                 if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
+                  s7 = peg$c103;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c104); }
                 }
                 if (s7 !== peg$FAILED) {
                   s8 = peg$parse_();
@@ -1965,46 +2983,31 @@ function peg$parse(input: string, options?: IParseOptions) {
                       s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
                         if (input.charCodeAt(peg$currPos) === 44) {
-                          s11 = peg$c72;
+                          s11 = peg$c103;
                           peg$currPos++;
                         } else {
                           s11 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                          if (peg$silentFails === 0) { peg$fail(peg$c104); }
                         }
                         if (s11 !== peg$FAILED) {
                           s12 = peg$parse_();
                           if (s12 !== peg$FAILED) {
                             s13 = peg$parseNumber();
                             if (s13 !== peg$FAILED) {
-                              s14 = peg$parse_();
+                              s14 = peg$currPos;
+                              peg$silentFails++;
+                              s15 = peg$parseEOP();
+                              peg$silentFails--;
+                              if (s15 !== peg$FAILED) {
+                                peg$currPos = s14;
+                                s14 = undefined;
+                              } else {
+                                s14 = peg$FAILED;
+                              }
                               if (s14 !== peg$FAILED) {
-                                if (input.charCodeAt(peg$currPos) === 44) {
-                                  s15 = peg$c72;
-                                  peg$currPos++;
-                                } else {
-                                  s15 = peg$FAILED;
-                                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                                }
-                                if (s15 !== peg$FAILED) {
-                                  s16 = peg$parse_();
-                                  if (s16 !== peg$FAILED) {
-                                    s17 = peg$parseNumber();
-                                    if (s17 !== peg$FAILED) {
-                                      peg$savedPos = s0;
-                                      s1 = peg$c80(s5, s9, s13, s17);
-                                      s0 = s1;
-                                    } else {
-                                      peg$currPos = s0;
-                                      s0 = peg$FAILED;
-                                    }
-                                  } else {
-                                    peg$currPos = s0;
-                                    s0 = peg$FAILED;
-                                  }
-                                } else {
-                                  peg$currPos = s0;
-                                  s0 = peg$FAILED;
-                                }
+                                peg$savedPos = s0;
+                                s1 = peg$c107(s1, s5, s9, s13);
+                                s0 = s1;
                               } else {
                                 peg$currPos = s0;
                                 s0 = peg$FAILED;
@@ -2067,10 +3070,10 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
-  function peg$parseIPoint2Value(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
+  function peg$parseIPoint2Data(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7;
 
-    const key = peg$currPos * 52 + 24;
+    const key = peg$currPos * 70 + 41;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2080,57 +3083,36 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 3) === peg$c81) {
-      s1 = peg$c81;
-      peg$currPos += 3;
-    } else {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c82); }
-    }
+    s1 = peg$parseIntNumber();
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s3 = peg$c103;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
             s5 = peg$parseIntNumber();
             if (s5 !== peg$FAILED) {
-              s6 = peg$parse_();
+              s6 = peg$currPos;
+              peg$silentFails++;
+              s7 = peg$parseEOP();
+              peg$silentFails--;
+              if (s7 !== peg$FAILED) {
+                peg$currPos = s6;
+                s6 = undefined;
+              } else {
+                s6 = peg$FAILED;
+              }
               if (s6 !== peg$FAILED) {
-                if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
-                  peg$currPos++;
-                } else {
-                  s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                }
-                if (s7 !== peg$FAILED) {
-                  s8 = peg$parse_();
-                  if (s8 !== peg$FAILED) {
-                    s9 = peg$parseIntNumber();
-                    if (s9 !== peg$FAILED) {
-                      peg$savedPos = s0;
-                      s1 = peg$c83(s5, s9);
-                      s0 = s1;
-                    } else {
-                      peg$currPos = s0;
-                      s0 = peg$FAILED;
-                    }
-                  } else {
-                    peg$currPos = s0;
-                    s0 = peg$FAILED;
-                  }
-                } else {
-                  peg$currPos = s0;
-                  s0 = peg$FAILED;
-                }
+                peg$savedPos = s0;
+                s1 = peg$c105(s1, s5);
+                s0 = s1;
               } else {
                 peg$currPos = s0;
                 s0 = peg$FAILED;
@@ -2161,10 +3143,10 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
-  function peg$parseIPoint3Value(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13;
+  function peg$parseIPoint3Data(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11;
 
-    const key = peg$currPos * 52 + 25;
+    const key = peg$currPos * 70 + 42;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2174,22 +3156,16 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 3) === peg$c84) {
-      s1 = peg$c84;
-      peg$currPos += 3;
-    } else {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c85); }
-    }
+    s1 = peg$parseIntNumber();
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s3 = peg$c103;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
@@ -2199,46 +3175,31 @@ function peg$parse(input: string, options?: IParseOptions) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
                 if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
+                  s7 = peg$c103;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c104); }
                 }
                 if (s7 !== peg$FAILED) {
                   s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
                     s9 = peg$parseIntNumber();
                     if (s9 !== peg$FAILED) {
-                      s10 = peg$parse_();
+                      s10 = peg$currPos;
+                      peg$silentFails++;
+                      s11 = peg$parseEOP();
+                      peg$silentFails--;
+                      if (s11 !== peg$FAILED) {
+                        peg$currPos = s10;
+                        s10 = undefined;
+                      } else {
+                        s10 = peg$FAILED;
+                      }
                       if (s10 !== peg$FAILED) {
-                        if (input.charCodeAt(peg$currPos) === 44) {
-                          s11 = peg$c72;
-                          peg$currPos++;
-                        } else {
-                          s11 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                        }
-                        if (s11 !== peg$FAILED) {
-                          s12 = peg$parse_();
-                          if (s12 !== peg$FAILED) {
-                            s13 = peg$parseIntNumber();
-                            if (s13 !== peg$FAILED) {
-                              peg$savedPos = s0;
-                              s1 = peg$c86(s5, s9, s13);
-                              s0 = s1;
-                            } else {
-                              peg$currPos = s0;
-                              s0 = peg$FAILED;
-                            }
-                          } else {
-                            peg$currPos = s0;
-                            s0 = peg$FAILED;
-                          }
-                        } else {
-                          peg$currPos = s0;
-                          s0 = peg$FAILED;
-                        }
+                        peg$savedPos = s0;
+                        s1 = peg$c108(s1, s5, s9);
+                        s0 = s1;
                       } else {
                         peg$currPos = s0;
                         s0 = peg$FAILED;
@@ -2285,10 +3246,10 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
-  function peg$parseIPoint4Value(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15, s16, s17;
+  function peg$parseIPoint4Data(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15;
 
-    const key = peg$currPos * 52 + 26;
+    const key = peg$currPos * 70 + 43;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2298,22 +3259,16 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 3) === peg$c87) {
-      s1 = peg$c87;
-      peg$currPos += 3;
-    } else {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c88); }
-    }
+    s1 = peg$parseIntNumber();
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s3 = peg$c103;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
@@ -2323,11 +3278,11 @@ function peg$parse(input: string, options?: IParseOptions) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
                 if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
+                  s7 = peg$c103;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c104); }
                 }
                 if (s7 !== peg$FAILED) {
                   s8 = peg$parse_();
@@ -2337,46 +3292,31 @@ function peg$parse(input: string, options?: IParseOptions) {
                       s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
                         if (input.charCodeAt(peg$currPos) === 44) {
-                          s11 = peg$c72;
+                          s11 = peg$c103;
                           peg$currPos++;
                         } else {
                           s11 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                          if (peg$silentFails === 0) { peg$fail(peg$c104); }
                         }
                         if (s11 !== peg$FAILED) {
                           s12 = peg$parse_();
                           if (s12 !== peg$FAILED) {
                             s13 = peg$parseIntNumber();
                             if (s13 !== peg$FAILED) {
-                              s14 = peg$parse_();
+                              s14 = peg$currPos;
+                              peg$silentFails++;
+                              s15 = peg$parseEOP();
+                              peg$silentFails--;
+                              if (s15 !== peg$FAILED) {
+                                peg$currPos = s14;
+                                s14 = undefined;
+                              } else {
+                                s14 = peg$FAILED;
+                              }
                               if (s14 !== peg$FAILED) {
-                                if (input.charCodeAt(peg$currPos) === 44) {
-                                  s15 = peg$c72;
-                                  peg$currPos++;
-                                } else {
-                                  s15 = peg$FAILED;
-                                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                                }
-                                if (s15 !== peg$FAILED) {
-                                  s16 = peg$parse_();
-                                  if (s16 !== peg$FAILED) {
-                                    s17 = peg$parseIntNumber();
-                                    if (s17 !== peg$FAILED) {
-                                      peg$savedPos = s0;
-                                      s1 = peg$c89(s5, s9, s13, s17);
-                                      s0 = s1;
-                                    } else {
-                                      peg$currPos = s0;
-                                      s0 = peg$FAILED;
-                                    }
-                                  } else {
-                                    peg$currPos = s0;
-                                    s0 = peg$FAILED;
-                                  }
-                                } else {
-                                  peg$currPos = s0;
-                                  s0 = peg$FAILED;
-                                }
+                                peg$savedPos = s0;
+                                s1 = peg$c107(s1, s5, s9, s13);
+                                s0 = s1;
                               } else {
                                 peg$currPos = s0;
                                 s0 = peg$FAILED;
@@ -2439,10 +3379,10 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
-  function peg$parseColorValue(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15, s16, s17;
+  function peg$parseColorData(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14;
 
-    const key = peg$currPos * 52 + 27;
+    const key = peg$currPos * 70 + 44;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2452,97 +3392,88 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
 
     s0 = peg$currPos;
-    if (input.charCodeAt(peg$currPos) === 99) {
-      s1 = peg$c90;
-      peg$currPos++;
-    } else {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c91); }
-    }
+    s1 = peg$parseColorComponent();
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+        if (input.charCodeAt(peg$currPos) === 44) {
+          s3 = peg$c103;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            s5 = peg$parseIntNumber();
+            s5 = peg$parseColorComponent();
             if (s5 !== peg$FAILED) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
                 if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
+                  s7 = peg$c103;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c104); }
                 }
                 if (s7 !== peg$FAILED) {
                   s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parseIntNumber();
+                    s9 = peg$parseColorComponent();
                     if (s9 !== peg$FAILED) {
-                      s10 = peg$parse_();
-                      if (s10 !== peg$FAILED) {
+                      s10 = peg$currPos;
+                      s11 = peg$parse_();
+                      if (s11 !== peg$FAILED) {
                         if (input.charCodeAt(peg$currPos) === 44) {
-                          s11 = peg$c72;
+                          s12 = peg$c103;
                           peg$currPos++;
                         } else {
-                          s11 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                          s12 = peg$FAILED;
+                          if (peg$silentFails === 0) { peg$fail(peg$c104); }
                         }
-                        if (s11 !== peg$FAILED) {
-                          s12 = peg$parse_();
-                          if (s12 !== peg$FAILED) {
-                            s13 = peg$parseIntNumber();
-                            if (s13 !== peg$FAILED) {
-                              s14 = peg$parse_();
-                              if (s14 !== peg$FAILED) {
-                                if (input.charCodeAt(peg$currPos) === 44) {
-                                  s15 = peg$c72;
-                                  peg$currPos++;
-                                } else {
-                                  s15 = peg$FAILED;
-                                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
-                                }
-                                if (s15 !== peg$FAILED) {
-                                  s16 = peg$parse_();
-                                  if (s16 !== peg$FAILED) {
-                                    s17 = peg$parseIntNumber();
-                                    if (s17 !== peg$FAILED) {
-                                      peg$savedPos = s0;
-                                      s1 = peg$c92(s5, s9, s13, s17);
-                                      s0 = s1;
-                                    } else {
-                                      peg$currPos = s0;
-                                      s0 = peg$FAILED;
-                                    }
-                                  } else {
-                                    peg$currPos = s0;
-                                    s0 = peg$FAILED;
-                                  }
-                                } else {
-                                  peg$currPos = s0;
-                                  s0 = peg$FAILED;
-                                }
-                              } else {
-                                peg$currPos = s0;
-                                s0 = peg$FAILED;
-                              }
+                        if (s12 !== peg$FAILED) {
+                          s13 = peg$parse_();
+                          if (s13 !== peg$FAILED) {
+                            s14 = peg$parseColorComponent();
+                            if (s14 !== peg$FAILED) {
+                              peg$savedPos = s10;
+                              s11 = peg$c109(s1, s5, s9, s14);
+                              s10 = s11;
                             } else {
-                              peg$currPos = s0;
-                              s0 = peg$FAILED;
+                              peg$currPos = s10;
+                              s10 = peg$FAILED;
                             }
                           } else {
-                            peg$currPos = s0;
-                            s0 = peg$FAILED;
+                            peg$currPos = s10;
+                            s10 = peg$FAILED;
                           }
+                        } else {
+                          peg$currPos = s10;
+                          s10 = peg$FAILED;
+                        }
+                      } else {
+                        peg$currPos = s10;
+                        s10 = peg$FAILED;
+                      }
+                      if (s10 === peg$FAILED) {
+                        s10 = null;
+                      }
+                      if (s10 !== peg$FAILED) {
+                        s11 = peg$currPos;
+                        peg$silentFails++;
+                        s12 = peg$parseEOP();
+                        peg$silentFails--;
+                        if (s12 !== peg$FAILED) {
+                          peg$currPos = s11;
+                          s11 = undefined;
+                        } else {
+                          s11 = peg$FAILED;
+                        }
+                        if (s11 !== peg$FAILED) {
+                          peg$savedPos = s0;
+                          s1 = peg$c110(s1, s5, s9, s10);
+                          s0 = s1;
                         } else {
                           peg$currPos = s0;
                           s0 = peg$FAILED;
@@ -2593,10 +3524,10 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
-  function peg$parseTMatrixValue(): any {
-    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15, s16, s17, s18, s19, s20, s21, s22, s23, s24, s25, s26, s27, s28, s29, s30, s31;
+  function peg$parseColorComponent(): any {
+    let s0, s1;
 
-    const key = peg$currPos * 52 + 28;
+    const key = peg$currPos * 70 + 45;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2605,156 +3536,166 @@ function peg$parse(input: string, options?: IParseOptions) {
       return cached.result;
     }
 
+    peg$silentFails++;
     s0 = peg$currPos;
-    if (input.charCodeAt(peg$currPos) === 109) {
-      s1 = peg$c93;
+    s1 = peg$parseIntNumber();
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c112(s1);
+    }
+    s0 = s1;
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c111); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseTMatrixData(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9, s10, s11, s12, s13, s14, s15, s16, s17, s18, s19, s20, s21, s22, s23, s24, s25, s26, s27, s28, s29;
+
+    const key = peg$currPos * 70 + 46;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 91) {
+      s1 = peg$c113;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c94); }
+      if (peg$silentFails === 0) { peg$fail(peg$c114); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 61) {
-          s3 = peg$c31;
+        if (input.charCodeAt(peg$currPos) === 91) {
+          s3 = peg$c113;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c32); }
+          if (peg$silentFails === 0) { peg$fail(peg$c114); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
           if (s4 !== peg$FAILED) {
-            if (input.charCodeAt(peg$currPos) === 91) {
-              s5 = peg$c95;
-              peg$currPos++;
-            } else {
-              s5 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c96); }
-            }
+            s5 = peg$parsePoint3();
             if (s5 !== peg$FAILED) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
-                if (input.charCodeAt(peg$currPos) === 91) {
-                  s7 = peg$c95;
+                if (input.charCodeAt(peg$currPos) === 93) {
+                  s7 = peg$c115;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c96); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c116); }
                 }
                 if (s7 !== peg$FAILED) {
                   s8 = peg$parse_();
                   if (s8 !== peg$FAILED) {
-                    s9 = peg$parsePoint3();
+                    if (input.charCodeAt(peg$currPos) === 91) {
+                      s9 = peg$c113;
+                      peg$currPos++;
+                    } else {
+                      s9 = peg$FAILED;
+                      if (peg$silentFails === 0) { peg$fail(peg$c114); }
+                    }
                     if (s9 !== peg$FAILED) {
                       s10 = peg$parse_();
                       if (s10 !== peg$FAILED) {
-                        if (input.charCodeAt(peg$currPos) === 93) {
-                          s11 = peg$c97;
-                          peg$currPos++;
-                        } else {
-                          s11 = peg$FAILED;
-                          if (peg$silentFails === 0) { peg$fail(peg$c98); }
-                        }
+                        s11 = peg$parsePoint3();
                         if (s11 !== peg$FAILED) {
                           s12 = peg$parse_();
                           if (s12 !== peg$FAILED) {
-                            if (input.charCodeAt(peg$currPos) === 91) {
-                              s13 = peg$c95;
+                            if (input.charCodeAt(peg$currPos) === 93) {
+                              s13 = peg$c115;
                               peg$currPos++;
                             } else {
                               s13 = peg$FAILED;
-                              if (peg$silentFails === 0) { peg$fail(peg$c96); }
+                              if (peg$silentFails === 0) { peg$fail(peg$c116); }
                             }
                             if (s13 !== peg$FAILED) {
                               s14 = peg$parse_();
                               if (s14 !== peg$FAILED) {
-                                s15 = peg$parsePoint3();
+                                if (input.charCodeAt(peg$currPos) === 91) {
+                                  s15 = peg$c113;
+                                  peg$currPos++;
+                                } else {
+                                  s15 = peg$FAILED;
+                                  if (peg$silentFails === 0) { peg$fail(peg$c114); }
+                                }
                                 if (s15 !== peg$FAILED) {
                                   s16 = peg$parse_();
                                   if (s16 !== peg$FAILED) {
-                                    if (input.charCodeAt(peg$currPos) === 93) {
-                                      s17 = peg$c97;
-                                      peg$currPos++;
-                                    } else {
-                                      s17 = peg$FAILED;
-                                      if (peg$silentFails === 0) { peg$fail(peg$c98); }
-                                    }
+                                    s17 = peg$parsePoint3();
                                     if (s17 !== peg$FAILED) {
                                       s18 = peg$parse_();
                                       if (s18 !== peg$FAILED) {
-                                        if (input.charCodeAt(peg$currPos) === 91) {
-                                          s19 = peg$c95;
+                                        if (input.charCodeAt(peg$currPos) === 93) {
+                                          s19 = peg$c115;
                                           peg$currPos++;
                                         } else {
                                           s19 = peg$FAILED;
-                                          if (peg$silentFails === 0) { peg$fail(peg$c96); }
+                                          if (peg$silentFails === 0) { peg$fail(peg$c116); }
                                         }
                                         if (s19 !== peg$FAILED) {
                                           s20 = peg$parse_();
                                           if (s20 !== peg$FAILED) {
-                                            s21 = peg$parsePoint3();
+                                            if (input.charCodeAt(peg$currPos) === 91) {
+                                              s21 = peg$c113;
+                                              peg$currPos++;
+                                            } else {
+                                              s21 = peg$FAILED;
+                                              if (peg$silentFails === 0) { peg$fail(peg$c114); }
+                                            }
                                             if (s21 !== peg$FAILED) {
                                               s22 = peg$parse_();
                                               if (s22 !== peg$FAILED) {
-                                                if (input.charCodeAt(peg$currPos) === 93) {
-                                                  s23 = peg$c97;
-                                                  peg$currPos++;
-                                                } else {
-                                                  s23 = peg$FAILED;
-                                                  if (peg$silentFails === 0) { peg$fail(peg$c98); }
-                                                }
+                                                s23 = peg$parsePoint3();
                                                 if (s23 !== peg$FAILED) {
                                                   s24 = peg$parse_();
                                                   if (s24 !== peg$FAILED) {
-                                                    if (input.charCodeAt(peg$currPos) === 91) {
-                                                      s25 = peg$c95;
+                                                    if (input.charCodeAt(peg$currPos) === 93) {
+                                                      s25 = peg$c115;
                                                       peg$currPos++;
                                                     } else {
                                                       s25 = peg$FAILED;
-                                                      if (peg$silentFails === 0) { peg$fail(peg$c96); }
+                                                      if (peg$silentFails === 0) { peg$fail(peg$c116); }
                                                     }
                                                     if (s25 !== peg$FAILED) {
                                                       s26 = peg$parse_();
                                                       if (s26 !== peg$FAILED) {
-                                                        s27 = peg$parsePoint3();
+                                                        if (input.charCodeAt(peg$currPos) === 93) {
+                                                          s27 = peg$c115;
+                                                          peg$currPos++;
+                                                        } else {
+                                                          s27 = peg$FAILED;
+                                                          if (peg$silentFails === 0) { peg$fail(peg$c116); }
+                                                        }
                                                         if (s27 !== peg$FAILED) {
-                                                          s28 = peg$parse_();
+                                                          s28 = peg$currPos;
+                                                          peg$silentFails++;
+                                                          s29 = peg$parseEOP();
+                                                          peg$silentFails--;
+                                                          if (s29 !== peg$FAILED) {
+                                                            peg$currPos = s28;
+                                                            s28 = undefined;
+                                                          } else {
+                                                            s28 = peg$FAILED;
+                                                          }
                                                           if (s28 !== peg$FAILED) {
-                                                            if (input.charCodeAt(peg$currPos) === 93) {
-                                                              s29 = peg$c97;
-                                                              peg$currPos++;
-                                                            } else {
-                                                              s29 = peg$FAILED;
-                                                              if (peg$silentFails === 0) { peg$fail(peg$c98); }
-                                                            }
-                                                            if (s29 !== peg$FAILED) {
-                                                              s30 = peg$parse_();
-                                                              if (s30 !== peg$FAILED) {
-                                                                if (input.charCodeAt(peg$currPos) === 93) {
-                                                                  s31 = peg$c97;
-                                                                  peg$currPos++;
-                                                                } else {
-                                                                  s31 = peg$FAILED;
-                                                                  if (peg$silentFails === 0) { peg$fail(peg$c98); }
-                                                                }
-                                                                if (s31 !== peg$FAILED) {
-                                                                  peg$savedPos = s0;
-                                                                  s1 = peg$c99(s9, s15, s21, s27);
-                                                                  s0 = s1;
-                                                                } else {
-                                                                  peg$currPos = s0;
-                                                                  s0 = peg$FAILED;
-                                                                }
-                                                              } else {
-                                                                peg$currPos = s0;
-                                                                s0 = peg$FAILED;
-                                                              }
-                                                            } else {
-                                                              peg$currPos = s0;
-                                                              s0 = peg$FAILED;
-                                                            }
+                                                            peg$savedPos = s0;
+                                                            s1 = peg$c117(s5, s11, s17, s23);
+                                                            s0 = s1;
                                                           } else {
                                                             peg$currPos = s0;
                                                             s0 = peg$FAILED;
@@ -2876,7 +3817,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parsePoint3(): any {
     let s0, s1, s2, s3, s4, s5, s6, s7, s8, s9;
 
-    const key = peg$currPos * 52 + 29;
+    const key = peg$currPos * 70 + 47;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2891,11 +3832,11 @@ function peg$parse(input: string, options?: IParseOptions) {
       s2 = peg$parse_();
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 44) {
-          s3 = peg$c72;
+          s3 = peg$c103;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c73); }
+          if (peg$silentFails === 0) { peg$fail(peg$c104); }
         }
         if (s3 !== peg$FAILED) {
           s4 = peg$parse_();
@@ -2905,11 +3846,11 @@ function peg$parse(input: string, options?: IParseOptions) {
               s6 = peg$parse_();
               if (s6 !== peg$FAILED) {
                 if (input.charCodeAt(peg$currPos) === 44) {
-                  s7 = peg$c72;
+                  s7 = peg$c103;
                   peg$currPos++;
                 } else {
                   s7 = peg$FAILED;
-                  if (peg$silentFails === 0) { peg$fail(peg$c73); }
+                  if (peg$silentFails === 0) { peg$fail(peg$c104); }
                 }
                 if (s7 !== peg$FAILED) {
                   s8 = peg$parse_();
@@ -2917,7 +3858,7 @@ function peg$parse(input: string, options?: IParseOptions) {
                     s9 = peg$parseNumber();
                     if (s9 !== peg$FAILED) {
                       peg$savedPos = s0;
-                      s1 = peg$c100(s1, s5, s9);
+                      s1 = peg$c118(s1, s5, s9);
                       s0 = s1;
                     } else {
                       peg$currPos = s0;
@@ -2944,16 +3885,98 @@ function peg$parse(input: string, options?: IParseOptions) {
             s0 = peg$FAILED;
           }
         } else {
-          peg$currPos = s0;
-          s0 = peg$FAILED;
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseInvalidValue(): any {
+    let s0, s1, s2, s3, s4;
+
+    const key = peg$currPos * 70 + 48;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    s1 = [];
+    s2 = peg$currPos;
+    s3 = peg$currPos;
+    peg$silentFails++;
+    s4 = peg$parseEOP();
+    peg$silentFails--;
+    if (s4 === peg$FAILED) {
+      s3 = undefined;
+    } else {
+      peg$currPos = s3;
+      s3 = peg$FAILED;
+    }
+    if (s3 !== peg$FAILED) {
+      s4 = peg$parseChar();
+      if (s4 !== peg$FAILED) {
+        s3 = [s3, s4];
+        s2 = s3;
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s2;
+      s2 = peg$FAILED;
+    }
+    while (s2 !== peg$FAILED) {
+      s1.push(s2);
+      s2 = peg$currPos;
+      s3 = peg$currPos;
+      peg$silentFails++;
+      s4 = peg$parseEOP();
+      peg$silentFails--;
+      if (s4 === peg$FAILED) {
+        s3 = undefined;
+      } else {
+        peg$currPos = s3;
+        s3 = peg$FAILED;
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = peg$parseChar();
+        if (s4 !== peg$FAILED) {
+          s3 = [s3, s4];
+          s2 = s3;
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
         }
       } else {
-        peg$currPos = s0;
-        s0 = peg$FAILED;
+        peg$currPos = s2;
+        s2 = peg$FAILED;
       }
-    } else {
-      peg$currPos = s0;
-      s0 = peg$FAILED;
+    }
+    if (s1 !== peg$FAILED) {
+      peg$savedPos = s0;
+      s1 = peg$c120();
+    }
+    s0 = s1;
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c119); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -2964,7 +3987,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseComment(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 30;
+    const key = peg$currPos * 70 + 49;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -2983,7 +4006,7 @@ function peg$parse(input: string, options?: IParseOptions) {
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c102(s1, s2);
+        s1 = peg$c122(s1, s2);
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -2996,7 +4019,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c101); }
+      if (peg$silentFails === 0) { peg$fail(peg$c121); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3007,7 +4030,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseCommentLine(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 31;
+    const key = peg$currPos * 70 + 50;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3018,12 +4041,12 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 2) === peg$c104) {
-      s1 = peg$c104;
+    if (input.substr(peg$currPos, 2) === peg$c124) {
+      s1 = peg$c124;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c105); }
+      if (peg$silentFails === 0) { peg$fail(peg$c125); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
@@ -3080,7 +4103,7 @@ function peg$parse(input: string, options?: IParseOptions) {
       }
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c106();
+        s1 = peg$c126();
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -3093,7 +4116,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c103); }
+      if (peg$silentFails === 0) { peg$fail(peg$c123); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3104,7 +4127,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseCommentBlock(): any {
     let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 32;
+    const key = peg$currPos * 70 + 51;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3115,24 +4138,24 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (input.substr(peg$currPos, 2) === peg$c108) {
-      s1 = peg$c108;
+    if (input.substr(peg$currPos, 2) === peg$c128) {
+      s1 = peg$c128;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c109); }
+      if (peg$silentFails === 0) { peg$fail(peg$c129); }
     }
     if (s1 !== peg$FAILED) {
       s2 = [];
       s3 = peg$currPos;
       s4 = peg$currPos;
       peg$silentFails++;
-      if (input.substr(peg$currPos, 2) === peg$c110) {
-        s5 = peg$c110;
+      if (input.substr(peg$currPos, 2) === peg$c130) {
+        s5 = peg$c130;
         peg$currPos += 2;
       } else {
         s5 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c111); }
+        if (peg$silentFails === 0) { peg$fail(peg$c131); }
       }
       peg$silentFails--;
       if (s5 === peg$FAILED) {
@@ -3159,12 +4182,12 @@ function peg$parse(input: string, options?: IParseOptions) {
         s3 = peg$currPos;
         s4 = peg$currPos;
         peg$silentFails++;
-        if (input.substr(peg$currPos, 2) === peg$c110) {
-          s5 = peg$c110;
+        if (input.substr(peg$currPos, 2) === peg$c130) {
+          s5 = peg$c130;
           peg$currPos += 2;
         } else {
           s5 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c111); }
+          if (peg$silentFails === 0) { peg$fail(peg$c131); }
         }
         peg$silentFails--;
         if (s5 === peg$FAILED) {
@@ -3188,16 +4211,16 @@ function peg$parse(input: string, options?: IParseOptions) {
         }
       }
       if (s2 !== peg$FAILED) {
-        if (input.substr(peg$currPos, 2) === peg$c110) {
-          s3 = peg$c110;
+        if (input.substr(peg$currPos, 2) === peg$c130) {
+          s3 = peg$c130;
           peg$currPos += 2;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c111); }
+          if (peg$silentFails === 0) { peg$fail(peg$c131); }
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c112();
+          s1 = peg$c132();
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -3214,7 +4237,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c107); }
+      if (peg$silentFails === 0) { peg$fail(peg$c127); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3225,7 +4248,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseEmptyLine(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 33;
+    const key = peg$currPos * 70 + 52;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3237,28 +4260,28 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     s1 = [];
-    if (peg$c14.test(input.charAt(peg$currPos))) {
+    if (peg$c18.test(input.charAt(peg$currPos))) {
       s2 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c15); }
+      if (peg$silentFails === 0) { peg$fail(peg$c19); }
     }
     while (s2 !== peg$FAILED) {
       s1.push(s2);
-      if (peg$c14.test(input.charAt(peg$currPos))) {
+      if (peg$c18.test(input.charAt(peg$currPos))) {
         s2 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c15); }
+        if (peg$silentFails === 0) { peg$fail(peg$c19); }
       }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parseEOL();
       if (s2 !== peg$FAILED) {
         peg$savedPos = s0;
-        s1 = peg$c114();
+        s1 = peg$c134();
         s0 = s1;
       } else {
         peg$currPos = s0;
@@ -3271,7 +4294,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c113); }
+      if (peg$silentFails === 0) { peg$fail(peg$c133); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3282,7 +4305,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseStrings(): any {
     let s0, s1;
 
-    const key = peg$currPos * 52 + 34;
+    const key = peg$currPos * 70 + 53;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3302,7 +4325,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c115); }
+      if (peg$silentFails === 0) { peg$fail(peg$c135); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3313,7 +4336,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseQuotedString(): any {
     let s0, s1;
 
-    const key = peg$currPos * 52 + 35;
+    const key = peg$currPos * 70 + 54;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3330,7 +4353,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c116); }
+      if (peg$silentFails === 0) { peg$fail(peg$c136); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3341,7 +4364,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseString(): any {
     let s0, s1, s2, s3, s4;
 
-    const key = peg$currPos * 52 + 36;
+    const key = peg$currPos * 70 + 55;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3365,12 +4388,12 @@ function peg$parse(input: string, options?: IParseOptions) {
       s3 = peg$FAILED;
     }
     if (s3 !== peg$FAILED) {
-      if (peg$c118.test(input.charAt(peg$currPos))) {
+      if (peg$c138.test(input.charAt(peg$currPos))) {
         s4 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s4 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c119); }
+        if (peg$silentFails === 0) { peg$fail(peg$c139); }
       }
       if (s4 !== peg$FAILED) {
         s3 = [s3, s4];
@@ -3398,12 +4421,12 @@ function peg$parse(input: string, options?: IParseOptions) {
           s3 = peg$FAILED;
         }
         if (s3 !== peg$FAILED) {
-          if (peg$c118.test(input.charAt(peg$currPos))) {
+          if (peg$c138.test(input.charAt(peg$currPos))) {
             s4 = input.charAt(peg$currPos);
             peg$currPos++;
           } else {
             s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c119); }
+            if (peg$silentFails === 0) { peg$fail(peg$c139); }
           }
           if (s4 !== peg$FAILED) {
             s3 = [s3, s4];
@@ -3422,13 +4445,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c22();
+      s1 = peg$c25();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c117); }
+      if (peg$silentFails === 0) { peg$fail(peg$c137); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3439,7 +4462,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseSString(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 37;
+    const key = peg$currPos * 70 + 56;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3451,22 +4474,22 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     s1 = [];
-    if (peg$c121.test(input.charAt(peg$currPos))) {
+    if (peg$c141.test(input.charAt(peg$currPos))) {
       s2 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c122); }
+      if (peg$silentFails === 0) { peg$fail(peg$c142); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
         s1.push(s2);
-        if (peg$c121.test(input.charAt(peg$currPos))) {
+        if (peg$c141.test(input.charAt(peg$currPos))) {
           s2 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c122); }
+          if (peg$silentFails === 0) { peg$fail(peg$c142); }
         }
       }
     } else {
@@ -3474,13 +4497,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c22();
+      s1 = peg$c25();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c120); }
+      if (peg$silentFails === 0) { peg$fail(peg$c140); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3491,7 +4514,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseEmptyString(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 38;
+    const key = peg$currPos * 70 + 57;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3504,19 +4527,19 @@ function peg$parse(input: string, options?: IParseOptions) {
     s0 = peg$currPos;
     s1 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 34) {
-      s2 = peg$c19;
+      s2 = peg$c22;
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c20); }
+      if (peg$silentFails === 0) { peg$fail(peg$c23); }
     }
     if (s2 !== peg$FAILED) {
       if (input.charCodeAt(peg$currPos) === 34) {
-        s3 = peg$c19;
+        s3 = peg$c22;
         peg$currPos++;
       } else {
         s3 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c20); }
+        if (peg$silentFails === 0) { peg$fail(peg$c23); }
       }
       if (s3 !== peg$FAILED) {
         s2 = [s2, s3];
@@ -3532,19 +4555,19 @@ function peg$parse(input: string, options?: IParseOptions) {
     if (s1 === peg$FAILED) {
       s1 = peg$currPos;
       if (input.charCodeAt(peg$currPos) === 39) {
-        s2 = peg$c124;
+        s2 = peg$c144;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c125); }
+        if (peg$silentFails === 0) { peg$fail(peg$c145); }
       }
       if (s2 !== peg$FAILED) {
         if (input.charCodeAt(peg$currPos) === 39) {
-          s3 = peg$c124;
+          s3 = peg$c144;
           peg$currPos++;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c125); }
+          if (peg$silentFails === 0) { peg$fail(peg$c145); }
         }
         if (s3 !== peg$FAILED) {
           s2 = [s2, s3];
@@ -3560,13 +4583,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c126();
+      s1 = peg$c146();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c123); }
+      if (peg$silentFails === 0) { peg$fail(peg$c143); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3577,7 +4600,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseUnquotedString(): any {
     let s0, s1, s2, s3, s4;
 
-    const key = peg$currPos * 52 + 39;
+    const key = peg$currPos * 70 + 58;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3592,12 +4615,12 @@ function peg$parse(input: string, options?: IParseOptions) {
     s2 = peg$currPos;
     s3 = peg$currPos;
     peg$silentFails++;
-    if (peg$c127.test(input.charAt(peg$currPos))) {
+    if (peg$c147.test(input.charAt(peg$currPos))) {
       s4 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s4 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c128); }
+      if (peg$silentFails === 0) { peg$fail(peg$c148); }
     }
     peg$silentFails--;
     if (s4 === peg$FAILED) {
@@ -3607,12 +4630,12 @@ function peg$parse(input: string, options?: IParseOptions) {
       s3 = peg$FAILED;
     }
     if (s3 !== peg$FAILED) {
-      if (peg$c118.test(input.charAt(peg$currPos))) {
+      if (peg$c138.test(input.charAt(peg$currPos))) {
         s4 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s4 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c119); }
+        if (peg$silentFails === 0) { peg$fail(peg$c139); }
       }
       if (s4 !== peg$FAILED) {
         s3 = [s3, s4];
@@ -3631,12 +4654,12 @@ function peg$parse(input: string, options?: IParseOptions) {
         s2 = peg$currPos;
         s3 = peg$currPos;
         peg$silentFails++;
-        if (peg$c127.test(input.charAt(peg$currPos))) {
+        if (peg$c147.test(input.charAt(peg$currPos))) {
           s4 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s4 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c128); }
+          if (peg$silentFails === 0) { peg$fail(peg$c148); }
         }
         peg$silentFails--;
         if (s4 === peg$FAILED) {
@@ -3646,12 +4669,12 @@ function peg$parse(input: string, options?: IParseOptions) {
           s3 = peg$FAILED;
         }
         if (s3 !== peg$FAILED) {
-          if (peg$c118.test(input.charAt(peg$currPos))) {
+          if (peg$c138.test(input.charAt(peg$currPos))) {
             s4 = input.charAt(peg$currPos);
             peg$currPos++;
           } else {
             s4 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c119); }
+            if (peg$silentFails === 0) { peg$fail(peg$c139); }
           }
           if (s4 !== peg$FAILED) {
             s3 = [s3, s4];
@@ -3670,13 +4693,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c22();
+      s1 = peg$c25();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c117); }
+      if (peg$silentFails === 0) { peg$fail(peg$c137); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3687,7 +4710,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseDoubleQuotedString(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 40;
+    const key = peg$currPos * 70 + 59;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3699,25 +4722,316 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     if (input.charCodeAt(peg$currPos) === 34) {
-      s1 = peg$c19;
+      s1 = peg$c22;
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c20); }
+      if (peg$silentFails === 0) { peg$fail(peg$c23); }
     }
     if (s1 !== peg$FAILED) {
       s2 = peg$parseString();
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 34) {
-          s3 = peg$c19;
+        if (input.charCodeAt(peg$currPos) === 34) {
+          s3 = peg$c22;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c23); }
+        }
+        if (s3 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c149(s2);
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c137); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseSingleQuotedString(): any {
+    let s0, s1, s2, s3;
+
+    const key = peg$currPos * 70 + 60;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    if (input.charCodeAt(peg$currPos) === 39) {
+      s1 = peg$c144;
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c145); }
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$parseSString();
+      if (s2 !== peg$FAILED) {
+        if (input.charCodeAt(peg$currPos) === 39) {
+          s3 = peg$c144;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c145); }
+        }
+        if (s3 !== peg$FAILED) {
+          peg$savedPos = s0;
+          s1 = peg$c149(s2);
+          s0 = s1;
+        } else {
+          peg$currPos = s0;
+          s0 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s0;
+        s0 = peg$FAILED;
+      }
+    } else {
+      peg$currPos = s0;
+      s0 = peg$FAILED;
+    }
+    peg$silentFails--;
+    if (s0 === peg$FAILED) {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c137); }
+    }
+
+    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
+
+    return s0;
+  }
+
+  function peg$parseNumber(): any {
+    let s0, s1, s2, s3, s4, s5, s6, s7;
+
+    const key = peg$currPos * 70 + 61;
+    const cached: ICached = peg$resultsCache[key];
+
+    if (cached) {
+      peg$currPos = cached.nextPos;
+
+      return cached.result;
+    }
+
+    peg$silentFails++;
+    s0 = peg$currPos;
+    if (peg$c151.test(input.charAt(peg$currPos))) {
+      s1 = input.charAt(peg$currPos);
+      peg$currPos++;
+    } else {
+      s1 = peg$FAILED;
+      if (peg$silentFails === 0) { peg$fail(peg$c152); }
+    }
+    if (s1 === peg$FAILED) {
+      s1 = null;
+    }
+    if (s1 !== peg$FAILED) {
+      s2 = peg$currPos;
+      s3 = [];
+      if (peg$c153.test(input.charAt(peg$currPos))) {
+        s4 = input.charAt(peg$currPos);
+        peg$currPos++;
+      } else {
+        s4 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c154); }
+      }
+      if (s4 !== peg$FAILED) {
+        while (s4 !== peg$FAILED) {
+          s3.push(s4);
+          if (peg$c153.test(input.charAt(peg$currPos))) {
+            s4 = input.charAt(peg$currPos);
+            peg$currPos++;
+          } else {
+            s4 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c154); }
+          }
+        }
+      } else {
+        s3 = peg$FAILED;
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = peg$currPos;
+        if (input.charCodeAt(peg$currPos) === 46) {
+          s5 = peg$c155;
+          peg$currPos++;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c156); }
+        }
+        if (s5 !== peg$FAILED) {
+          s6 = [];
+          if (peg$c153.test(input.charAt(peg$currPos))) {
+            s7 = input.charAt(peg$currPos);
+            peg$currPos++;
+          } else {
+            s7 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c154); }
+          }
+          while (s7 !== peg$FAILED) {
+            s6.push(s7);
+            if (peg$c153.test(input.charAt(peg$currPos))) {
+              s7 = input.charAt(peg$currPos);
+              peg$currPos++;
+            } else {
+              s7 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c154); }
+            }
+          }
+          if (s6 !== peg$FAILED) {
+            s5 = [s5, s6];
+            s4 = s5;
+          } else {
+            peg$currPos = s4;
+            s4 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s4;
+          s4 = peg$FAILED;
+        }
+        if (s4 === peg$FAILED) {
+          s4 = null;
+        }
+        if (s4 !== peg$FAILED) {
+          s3 = [s3, s4];
+          s2 = s3;
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+      if (s2 === peg$FAILED) {
+        s2 = peg$currPos;
+        if (input.charCodeAt(peg$currPos) === 46) {
+          s3 = peg$c155;
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c156); }
+        }
+        if (s3 !== peg$FAILED) {
+          s4 = [];
+          if (peg$c153.test(input.charAt(peg$currPos))) {
+            s5 = input.charAt(peg$currPos);
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c154); }
+          }
+          if (s5 !== peg$FAILED) {
+            while (s5 !== peg$FAILED) {
+              s4.push(s5);
+              if (peg$c153.test(input.charAt(peg$currPos))) {
+                s5 = input.charAt(peg$currPos);
+                peg$currPos++;
+              } else {
+                s5 = peg$FAILED;
+                if (peg$silentFails === 0) { peg$fail(peg$c154); }
+              }
+            }
+          } else {
+            s4 = peg$FAILED;
+          }
+          if (s4 !== peg$FAILED) {
+            s3 = [s3, s4];
+            s2 = s3;
+          } else {
+            peg$currPos = s2;
+            s2 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
+        }
+      }
+      if (s2 !== peg$FAILED) {
+        s3 = peg$currPos;
+        if (peg$c157.test(input.charAt(peg$currPos))) {
+          s4 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
+          s4 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c158); }
+        }
+        if (s4 !== peg$FAILED) {
+          if (peg$c151.test(input.charAt(peg$currPos))) {
+            s5 = input.charAt(peg$currPos);
+            peg$currPos++;
+          } else {
+            s5 = peg$FAILED;
+            if (peg$silentFails === 0) { peg$fail(peg$c152); }
+          }
+          if (s5 === peg$FAILED) {
+            s5 = null;
+          }
+          if (s5 !== peg$FAILED) {
+            s6 = [];
+            if (peg$c153.test(input.charAt(peg$currPos))) {
+              s7 = input.charAt(peg$currPos);
+              peg$currPos++;
+            } else {
+              s7 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c154); }
+            }
+            if (s7 !== peg$FAILED) {
+              while (s7 !== peg$FAILED) {
+                s6.push(s7);
+                if (peg$c153.test(input.charAt(peg$currPos))) {
+                  s7 = input.charAt(peg$currPos);
+                  peg$currPos++;
+                } else {
+                  s7 = peg$FAILED;
+                  if (peg$silentFails === 0) { peg$fail(peg$c154); }
+                }
+              }
+            } else {
+              s6 = peg$FAILED;
+            }
+            if (s6 !== peg$FAILED) {
+              s4 = [s4, s5, s6];
+              s3 = s4;
+            } else {
+              peg$currPos = s3;
+              s3 = peg$FAILED;
+            }
+          } else {
+            peg$currPos = s3;
+            s3 = peg$FAILED;
+          }
+        } else {
+          peg$currPos = s3;
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c20); }
+        }
+        if (s3 === peg$FAILED) {
+          s3 = null;
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c129(s2);
+          s1 = peg$c159();
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -3734,7 +5048,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c117); }
+      if (peg$silentFails === 0) { peg$fail(peg$c150); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3742,10 +5056,10 @@ function peg$parse(input: string, options?: IParseOptions) {
     return s0;
   }
 
-  function peg$parseSingleQuotedString(): any {
-    let s0, s1, s2, s3;
+  function peg$parseIntNumber(): any {
+    let s0, s1, s2, s3, s4, s5;
 
-    const key = peg$currPos * 52 + 41;
+    const key = peg$currPos * 70 + 62;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3756,26 +5070,103 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (input.charCodeAt(peg$currPos) === 39) {
-      s1 = peg$c124;
+    if (peg$c151.test(input.charAt(peg$currPos))) {
+      s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c125); }
+      if (peg$silentFails === 0) { peg$fail(peg$c152); }
+    }
+    if (s1 === peg$FAILED) {
+      s1 = null;
     }
     if (s1 !== peg$FAILED) {
-      s2 = peg$parseSString();
+      s2 = peg$currPos;
+      if (input.substr(peg$currPos, 2).toLowerCase() === peg$c161) {
+        s3 = input.substr(peg$currPos, 2);
+        peg$currPos += 2;
+      } else {
+        s3 = peg$FAILED;
+        if (peg$silentFails === 0) { peg$fail(peg$c162); }
+      }
+      if (s3 !== peg$FAILED) {
+        s4 = [];
+        if (peg$c163.test(input.charAt(peg$currPos))) {
+          s5 = input.charAt(peg$currPos);
+          peg$currPos++;
+        } else {
+          s5 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c164); }
+        }
+        if (s5 !== peg$FAILED) {
+          while (s5 !== peg$FAILED) {
+            s4.push(s5);
+            if (peg$c163.test(input.charAt(peg$currPos))) {
+              s5 = input.charAt(peg$currPos);
+              peg$currPos++;
+            } else {
+              s5 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c164); }
+            }
+          }
+        } else {
+          s4 = peg$FAILED;
+        }
+        if (s4 !== peg$FAILED) {
+          s3 = [s3, s4];
+          s2 = s3;
+        } else {
+          peg$currPos = s2;
+          s2 = peg$FAILED;
+        }
+      } else {
+        peg$currPos = s2;
+        s2 = peg$FAILED;
+      }
+      if (s2 === peg$FAILED) {
+        s2 = [];
+        if (peg$c153.test(input.charAt(peg$currPos))) {
+          s3 = input.charAt(peg$currPos);
+          peg$currPos++;
+        } else {
+          s3 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c154); }
+        }
+        if (s3 !== peg$FAILED) {
+          while (s3 !== peg$FAILED) {
+            s2.push(s3);
+            if (peg$c153.test(input.charAt(peg$currPos))) {
+              s3 = input.charAt(peg$currPos);
+              peg$currPos++;
+            } else {
+              s3 = peg$FAILED;
+              if (peg$silentFails === 0) { peg$fail(peg$c154); }
+            }
+          }
+        } else {
+          s2 = peg$FAILED;
+        }
+      }
       if (s2 !== peg$FAILED) {
-        if (input.charCodeAt(peg$currPos) === 39) {
-          s3 = peg$c124;
+        s3 = peg$currPos;
+        peg$silentFails++;
+        if (peg$c165.test(input.charAt(peg$currPos))) {
+          s4 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
+          s4 = peg$FAILED;
+          if (peg$silentFails === 0) { peg$fail(peg$c166); }
+        }
+        peg$silentFails--;
+        if (s4 === peg$FAILED) {
+          s3 = undefined;
+        } else {
+          peg$currPos = s3;
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c125); }
         }
         if (s3 !== peg$FAILED) {
           peg$savedPos = s0;
-          s1 = peg$c129(s2);
+          s1 = peg$c167();
           s0 = s1;
         } else {
           peg$currPos = s0;
@@ -3792,139 +5183,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c117); }
-    }
-
-    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
-
-    return s0;
-  }
-
-  function peg$parseNumber(): any {
-    let s0, s1;
-
-    const key = peg$currPos * 52 + 42;
-    const cached: ICached = peg$resultsCache[key];
-
-    if (cached) {
-      peg$currPos = cached.nextPos;
-
-      return cached.result;
-    }
-
-    peg$silentFails++;
-    s0 = peg$parseRealNumber();
-    if (s0 === peg$FAILED) {
-      s0 = peg$parseIntNumber();
-    }
-    peg$silentFails--;
-    if (s0 === peg$FAILED) {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c130); }
-    }
-
-    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
-
-    return s0;
-  }
-
-  function peg$parseRealNumber(): any {
-    let s0, s1, s2;
-
-    const key = peg$currPos * 52 + 43;
-    const cached: ICached = peg$resultsCache[key];
-
-    if (cached) {
-      peg$currPos = cached.nextPos;
-
-      return cached.result;
-    }
-
-    peg$silentFails++;
-    s0 = peg$currPos;
-    s1 = [];
-    if (peg$c131.test(input.charAt(peg$currPos))) {
-      s2 = input.charAt(peg$currPos);
-      peg$currPos++;
-    } else {
-      s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c132); }
-    }
-    if (s2 !== peg$FAILED) {
-      while (s2 !== peg$FAILED) {
-        s1.push(s2);
-        if (peg$c131.test(input.charAt(peg$currPos))) {
-          s2 = input.charAt(peg$currPos);
-          peg$currPos++;
-        } else {
-          s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c132); }
-        }
-      }
-    } else {
-      s1 = peg$FAILED;
-    }
-    if (s1 !== peg$FAILED) {
-      peg$savedPos = s0;
-      s1 = peg$c22();
-    }
-    s0 = s1;
-    peg$silentFails--;
-    if (s0 === peg$FAILED) {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c130); }
-    }
-
-    peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
-
-    return s0;
-  }
-
-  function peg$parseIntNumber(): any {
-    let s0, s1, s2;
-
-    const key = peg$currPos * 52 + 44;
-    const cached: ICached = peg$resultsCache[key];
-
-    if (cached) {
-      peg$currPos = cached.nextPos;
-
-      return cached.result;
-    }
-
-    peg$silentFails++;
-    s0 = peg$currPos;
-    s1 = [];
-    if (peg$c134.test(input.charAt(peg$currPos))) {
-      s2 = input.charAt(peg$currPos);
-      peg$currPos++;
-    } else {
-      s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c135); }
-    }
-    if (s2 !== peg$FAILED) {
-      while (s2 !== peg$FAILED) {
-        s1.push(s2);
-        if (peg$c134.test(input.charAt(peg$currPos))) {
-          s2 = input.charAt(peg$currPos);
-          peg$currPos++;
-        } else {
-          s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c135); }
-        }
-      }
-    } else {
-      s1 = peg$FAILED;
-    }
-    if (s1 !== peg$FAILED) {
-      peg$savedPos = s0;
-      s1 = peg$c22();
-    }
-    s0 = s1;
-    peg$silentFails--;
-    if (s0 === peg$FAILED) {
-      s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c133); }
+      if (peg$silentFails === 0) { peg$fail(peg$c160); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3935,7 +5194,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseChar(): any {
     let s0;
 
-    const key = peg$currPos * 52 + 45;
+    const key = peg$currPos * 70 + 63;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3949,7 +5208,7 @@ function peg$parse(input: string, options?: IParseOptions) {
       peg$currPos++;
     } else {
       s0 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c136); }
+      if (peg$silentFails === 0) { peg$fail(peg$c168); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -3960,7 +5219,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parse_(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 46;
+    const key = peg$currPos * 70 + 64;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -3972,32 +5231,32 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     s1 = [];
-    if (peg$c138.test(input.charAt(peg$currPos))) {
+    if (peg$c170.test(input.charAt(peg$currPos))) {
       s2 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c139); }
+      if (peg$silentFails === 0) { peg$fail(peg$c171); }
     }
     while (s2 !== peg$FAILED) {
       s1.push(s2);
-      if (peg$c138.test(input.charAt(peg$currPos))) {
+      if (peg$c170.test(input.charAt(peg$currPos))) {
         s2 = input.charAt(peg$currPos);
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c139); }
+        if (peg$silentFails === 0) { peg$fail(peg$c171); }
       }
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c140();
+      s1 = peg$c172();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c137); }
+      if (peg$silentFails === 0) { peg$fail(peg$c169); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -4008,7 +5267,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseSpaces(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 47;
+    const key = peg$currPos * 70 + 65;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -4020,22 +5279,22 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     s1 = [];
-    if (peg$c14.test(input.charAt(peg$currPos))) {
+    if (peg$c18.test(input.charAt(peg$currPos))) {
       s2 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c15); }
+      if (peg$silentFails === 0) { peg$fail(peg$c19); }
     }
     if (s2 !== peg$FAILED) {
       while (s2 !== peg$FAILED) {
         s1.push(s2);
-        if (peg$c14.test(input.charAt(peg$currPos))) {
+        if (peg$c18.test(input.charAt(peg$currPos))) {
           s2 = input.charAt(peg$currPos);
           peg$currPos++;
         } else {
           s2 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c15); }
+          if (peg$silentFails === 0) { peg$fail(peg$c19); }
         }
       }
     } else {
@@ -4043,13 +5302,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c140();
+      s1 = peg$c172();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c141); }
+      if (peg$silentFails === 0) { peg$fail(peg$c173); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -4060,7 +5319,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseEOL(): any {
     let s0, s1;
 
-    const key = peg$currPos * 52 + 48;
+    const key = peg$currPos * 70 + 66;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -4071,22 +5330,22 @@ function peg$parse(input: string, options?: IParseOptions) {
 
     peg$silentFails++;
     s0 = peg$currPos;
-    if (peg$c143.test(input.charAt(peg$currPos))) {
+    if (peg$c175.test(input.charAt(peg$currPos))) {
       s1 = input.charAt(peg$currPos);
       peg$currPos++;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c144); }
+      if (peg$silentFails === 0) { peg$fail(peg$c176); }
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c145();
+      s1 = peg$c177();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c142); }
+      if (peg$silentFails === 0) { peg$fail(peg$c174); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -4097,7 +5356,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseEOP(): any {
     let s0, s1, s2, s3;
 
-    const key = peg$currPos * 52 + 49;
+    const key = peg$currPos * 70 + 67;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -4116,21 +5375,21 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       if (input.charCodeAt(peg$currPos) === 59) {
-        s2 = peg$c147;
+        s2 = peg$c179;
         peg$currPos++;
       } else {
         s2 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c148); }
+        if (peg$silentFails === 0) { peg$fail(peg$c180); }
       }
       if (s2 === peg$FAILED) {
         s2 = peg$currPos;
         peg$silentFails++;
-        if (input.substr(peg$currPos, 2) === peg$c104) {
-          s3 = peg$c104;
+        if (input.substr(peg$currPos, 2) === peg$c124) {
+          s3 = peg$c124;
           peg$currPos += 2;
         } else {
           s3 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c105); }
+          if (peg$silentFails === 0) { peg$fail(peg$c125); }
         }
         peg$silentFails--;
         if (s3 !== peg$FAILED) {
@@ -4142,12 +5401,12 @@ function peg$parse(input: string, options?: IParseOptions) {
         if (s2 === peg$FAILED) {
           s2 = peg$currPos;
           peg$silentFails++;
-          if (input.substr(peg$currPos, 2) === peg$c108) {
-            s3 = peg$c108;
+          if (input.substr(peg$currPos, 2) === peg$c128) {
+            s3 = peg$c128;
             peg$currPos += 2;
           } else {
             s3 = peg$FAILED;
-            if (peg$silentFails === 0) { peg$fail(peg$c109); }
+            if (peg$silentFails === 0) { peg$fail(peg$c129); }
           }
           peg$silentFails--;
           if (s3 !== peg$FAILED) {
@@ -4160,11 +5419,11 @@ function peg$parse(input: string, options?: IParseOptions) {
             s2 = peg$currPos;
             peg$silentFails++;
             if (input.charCodeAt(peg$currPos) === 125) {
-              s3 = peg$c5;
+              s3 = peg$c3;
               peg$currPos++;
             } else {
               s3 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c6); }
+              if (peg$silentFails === 0) { peg$fail(peg$c4); }
             }
             peg$silentFails--;
             if (s3 !== peg$FAILED) {
@@ -4196,7 +5455,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c146); }
+      if (peg$silentFails === 0) { peg$fail(peg$c178); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -4207,7 +5466,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseEOPR(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 50;
+    const key = peg$currPos * 70 + 68;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -4219,12 +5478,12 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails++;
     s0 = peg$currPos;
     peg$silentFails++;
-    if (input.substr(peg$currPos, 2) === peg$c104) {
-      s1 = peg$c104;
+    if (input.substr(peg$currPos, 2) === peg$c124) {
+      s1 = peg$c124;
       peg$currPos += 2;
     } else {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c105); }
+      if (peg$silentFails === 0) { peg$fail(peg$c125); }
     }
     peg$silentFails--;
     if (s1 !== peg$FAILED) {
@@ -4236,12 +5495,12 @@ function peg$parse(input: string, options?: IParseOptions) {
     if (s0 === peg$FAILED) {
       s0 = peg$currPos;
       peg$silentFails++;
-      if (input.substr(peg$currPos, 2) === peg$c108) {
-        s1 = peg$c108;
+      if (input.substr(peg$currPos, 2) === peg$c128) {
+        s1 = peg$c128;
         peg$currPos += 2;
       } else {
         s1 = peg$FAILED;
-        if (peg$silentFails === 0) { peg$fail(peg$c109); }
+        if (peg$silentFails === 0) { peg$fail(peg$c129); }
       }
       peg$silentFails--;
       if (s1 !== peg$FAILED) {
@@ -4254,11 +5513,11 @@ function peg$parse(input: string, options?: IParseOptions) {
         s0 = peg$currPos;
         peg$silentFails++;
         if (input.charCodeAt(peg$currPos) === 125) {
-          s1 = peg$c5;
+          s1 = peg$c3;
           peg$currPos++;
         } else {
           s1 = peg$FAILED;
-          if (peg$silentFails === 0) { peg$fail(peg$c6); }
+          if (peg$silentFails === 0) { peg$fail(peg$c4); }
         }
         peg$silentFails--;
         if (s1 !== peg$FAILED) {
@@ -4277,11 +5536,11 @@ function peg$parse(input: string, options?: IParseOptions) {
           }
           if (s1 !== peg$FAILED) {
             if (input.charCodeAt(peg$currPos) === 59) {
-              s2 = peg$c147;
+              s2 = peg$c179;
               peg$currPos++;
             } else {
               s2 = peg$FAILED;
-              if (peg$silentFails === 0) { peg$fail(peg$c148); }
+              if (peg$silentFails === 0) { peg$fail(peg$c180); }
             }
             if (s2 !== peg$FAILED) {
               s1 = [s1, s2];
@@ -4295,7 +5554,7 @@ function peg$parse(input: string, options?: IParseOptions) {
             s0 = peg$FAILED;
           }
           if (s0 === peg$FAILED) {
-            s0 = peg$c150;
+            s0 = peg$c182;
             if (s0 === peg$FAILED) {
               s0 = peg$parseEOL();
               if (s0 === peg$FAILED) {
@@ -4309,7 +5568,7 @@ function peg$parse(input: string, options?: IParseOptions) {
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c149); }
+      if (peg$silentFails === 0) { peg$fail(peg$c181); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -4320,7 +5579,7 @@ function peg$parse(input: string, options?: IParseOptions) {
   function peg$parseEOF(): any {
     let s0, s1, s2;
 
-    const key = peg$currPos * 52 + 51;
+    const key = peg$currPos * 70 + 69;
     const cached: ICached = peg$resultsCache[key];
 
     if (cached) {
@@ -4338,7 +5597,7 @@ function peg$parse(input: string, options?: IParseOptions) {
       peg$currPos++;
     } else {
       s2 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c136); }
+      if (peg$silentFails === 0) { peg$fail(peg$c168); }
     }
     peg$silentFails--;
     if (s2 === peg$FAILED) {
@@ -4349,13 +5608,13 @@ function peg$parse(input: string, options?: IParseOptions) {
     }
     if (s1 !== peg$FAILED) {
       peg$savedPos = s0;
-      s1 = peg$c152();
+      s1 = peg$c184();
     }
     s0 = s1;
     peg$silentFails--;
     if (s0 === peg$FAILED) {
       s1 = peg$FAILED;
-      if (peg$silentFails === 0) { peg$fail(peg$c151); }
+      if (peg$silentFails === 0) { peg$fail(peg$c183); }
     }
 
     peg$resultsCache[key] = { nextPos: peg$currPos, result: s0 };
@@ -4374,9 +5633,43 @@ function peg$parse(input: string, options?: IParseOptions) {
         blocks: filterByType(src, 'block'),
         includes: filterByType(src, 'include'),
         comments: filterByType(src, 'comment'),
-        emptylines: filterByType(src, 'empty line'),
+        emptyLines: filterByType(src, 'empty line'),
+        errors: filterByType(src, 'error').concat(filterByType(src, 'param').filter(function(v) { return v.error; }).map(function(v) { return v.error; })),
       }
     }
+    function errorNode(message, location) {
+      return {
+        '_type': 'error',
+        value: {
+          location: location,
+          message: message
+        }
+      };
+    }
+    var expectedValues = {
+      't': 'string',
+      'r': 'real number',
+      'i': 'integer',
+      'i64': 'integer',
+      'b': 'yes, no, on, off, true, false, 1 or 0',
+      'p2': '2 comma separated real numbers',
+      'p3': '3 comma separated real numbers',
+      'p4': '4 comma separated real numbers',
+      'ip2': '2 comma separated integers',
+      'ip3': '3 comma separated integers',
+      'ip4': '4 comma separated integers',
+      'c': '3 or 4 comma separated integers in range 0..255',
+      'm': '[[x, y, z] [x, y, z] [x, y, z] [x, y, z]]',
+    };
+    // invalid value is kept as text, error is reported by param
+    function typedValue(type, v) {
+      if (v.invalid)
+        return { error: { location: v.location, message: v.message || "Invalid '" + type + "' value '" + v.text + "', expected " + expectedValues[type] }, value: [type, v.text, null] };
+      return { value: [type, v[0], v[1]] };
+    }
+    function invalidValue(message) {
+      return { invalid: true, text: text(), location: location(), message: message };
+    }
 
 
   peg$result = peg$startRuleFunction();
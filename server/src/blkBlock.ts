@@ -11,6 +11,9 @@ export const groupBlock = "_group"
 
 export const entityWithTemplateName = "entity"
 
+// fields with '_' prefix (_use, _override, _tracked, ...) describe template itself and aren't components
+export function isComponentName(name: string) { return name.length > 0 && !name.startsWith("_") }
+
 export interface BlkPosition {
 	offset: number
 	line: number
@@ -66,19 +69,33 @@ export interface BlkEmptyLine {
 	location: BlkLocation
 }
 
+// syntax error, unparsed text is skipped by parser
+export interface BlkError {
+	location: BlkLocation
+	message: string
+}
+
 export interface BlkIncludes {
 	location: BlkLocation
 	value: string
 }
 
+// typed value of param: string (t), number (r, i, i64), boolean (b),
+// number[] (p2, p3, p4, ip2, ip3, ip4, c) or number[][] (m)
+export type BlkValue = string | number | boolean | number[] | number[][]
+
 export interface BlkParam {
 	indent: BlkLocation
 	location: BlkLocation
-	value: string[] // [name, type, value]
+	value: (string | BlkValue)[] // [name, type, value, data]
 
 	_name: string // value?[0]
 	_type: string // value?[1]
 	_value: string // value?[2]
+	_data: BlkValue // value?[3], null for unknown types and invalid values
+	_block: boolean // param is made from child block
+	error?: BlkError // invalid value
+	doc?: string // text of comments before param or at the end of its line
 }
 
 export class BlkParam {
@@ -98,17 +115,22 @@ export interface BlkBlock {
 	blocks: BlkBlock[]
 	comments: BlkComment[]
 	emptyLines: BlkEmptyLine[]
+	errors: BlkError[] // syntax errors and invalid values inside of block
 	includes: BlkIncludes[]
 	location: BlkLocation
 	name: string
 	params: BlkParam[]
+	doc?: string // text of comments before block, comments of header line aren't included
 }
 
-export function toSymbolInformation(name: string, location: BlkLocation, uri: string, kind: SymbolKind): SymbolInformation {
+// templates and components are top level symbols, so their container is free for first line of documentation,
+// clients show it next to symbol name
+export function toSymbolInformation(name: string, location: BlkLocation, uri: string, kind: SymbolKind, doc: string = null): SymbolInformation {
 	return {
 		name: name,
 		kind: kind,
-		location: { uri: uri, range: BlkLocation.toRange(location) }
+		location: { uri: uri, range: BlkLocation.toRange(location) },
+		containerName: doc ?? undefined,
 	}
 }
 
@@ -124,4 +146,10 @@ export class BlkBlock {
 			children: children,
 		}
 	}
+	static getErrors(blk: BlkBlock, res: BlkError[] = []): BlkError[] {
+		res.push(...blk.errors ?? [])
+		for (const it of blk.blocks ?? [])
+			BlkBlock.getErrors(it, res)
+		return res
+	}
 }
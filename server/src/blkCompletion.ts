@@ -0,0 +1,158 @@
+import { CompletionItemKind, InsertTextFormat, CompletionItem } from 'vscode-languageserver'
+
+export interface BlkParamType {
+	type: string
+	description: string
+	value: string // default value snippet
+}
+
+export const paramTypes: BlkParamType[] = [
+	{ type: "t", description: "string", value: `"\${1}"` },
+	{ type: "r", description: "real", value: "${1:0}" },
+	{ type: "i", description: "integer", value: "${1:0}" },
+	{ type: "i64", description: "64-bit integer", value: "${1:0}" },
+	{ type: "b", description: "boolean", value: "${1|yes,no|}" },
+	{ type: "p2", description: "point2", value: "${1:0}, ${2:0}" },
+	{ type: "p3", description: "point3", value: "${1:0}, ${2:0}, ${3:0}" },
+	{ type: "p4", description: "point4", value: "${1:0}, ${2:0}, ${3:0}, ${4:0}" },
+	{ type: "ip2", description: "integer point2", value: "${1:0}, ${2:0}" },
+	{ type: "ip3", description: "integer point3", value: "${1:0}, ${2:0}, ${3:0}" },
+	{ type: "ip4", description: "integer point4", value: "${1:0}, ${2:0}, ${3:0}, ${4:0}" },
+	{ type: "c", description: "color", value: "${1:255}, ${2:255}, ${3:255}, ${4:255}" },
+	{ type: "m", description: "matrix", value: "[[${1:1}, 0, 0] [0, ${2:1}, 0] [0, 0, ${3:1}] [${4:0}, ${5:0}, ${6:0}]]" },
+]
+
+export const paramTypeCompletion: CompletionItem[] = paramTypes.map(it => {
+	return { label: it.type, kind: CompletionItemKind.TypeParameter, detail: it.description }
+})
+
+// snippet of component with default value, components declared as blocks are inserted as blocks
+export function paramSnippet(name: string, type: string, block: boolean): string {
+	const fullName = (type?.length ?? 0) > 0 ? `${name}:${type}` : name
+	if (block)
+		return `"${fullName}"{\n\t$0\n}`
+	const paramType = paramTypes.find(it => it.type == type)
+	return `${fullName}=${paramType ? paramType.value : "${1}"}`
+}
+
+export function snippetCompletion(label: string, snippet: string, kind: CompletionItemKind, detail: string = null): CompletionItem {
+	return { label: label, kind: kind, detail: detail, insertText: snippet, insertTextFormat: InsertTextFormat.Snippet }
+}
+
+export type BlkCompletionContextKind = 'none' | 'root' | 'component' | 'type' | 'template' | 'include'
+
+export interface BlkCompletionContext {
+	kind: BlkCompletionContextKind
+	prefix: string // already typed part of completed word
+	start: number // character of completed word start
+	block: string // name of top level block at position
+	multipleTemplates: boolean // completion of '+' separated list of templates
+}
+
+// parses text before position, tracks blocks, strings and comments
+export function getCompletionContext(text: string, line: number, character: number): BlkCompletionContext {
+	let offset = 0
+	for (let i = 0; i < line && offset >= 0; i++) {
+		offset = text.indexOf("\n", offset)
+		offset = offset < 0 ? -1 : offset + 1
+	}
+	if (offset < 0)
+		return { kind: 'none', prefix: "", start: character, block: null, multipleTemplates: false }
+	const lineStart = offset
+	offset = Math.min(text.length, lineStart + character)
+
+	let depth = 0
+	let block: string = null
+	let blockComment = false
+	let lineComment = false
+	let quote: string = null
+	let lastWord = ""
+	let word = ""
+	for (let i = 0; i < offset; i++) {
+		const ch = text[i]
+		if (blockComment) {
+			if (ch == "*" && text[i + 1] == "/") {
+				blockComment = false
+				i++
+			}
+			continue
+		}
+		if (ch == "\n") {
+			lineComment = false
+			quote = null
+			word = ""
+			continue
+		}
+		if (lineComment)
+			continue
+		if (quote) {
+			if (ch == quote)
+				quote = null
+			else
+				word += ch
+			continue
+		}
+		if (ch == "/" && text[i + 1] == "/") {
+			lineComment = true
+			i++
+			continue
+		}
+		if (ch == "/" && text[i + 1] == "*") {
+			blockComment = true
+			i++
+			continue
+		}
+		if (ch == "\"" || ch == "'") {
+			quote = ch
+			word = ""
+			continue
+		}
+		if (/[\w.\-:<>]/.test(ch)) {
+			word += ch
+			continue
+		}
+		if (word.length > 0)
+			lastWord = word
+		word = ""
+		if (ch == "{") {
+			if (depth == 0)
+				block = lastWord
+			depth++
+		}
+		else if (ch == "}") {
+			depth = Math.max(0, depth - 1)
+			if (depth == 0)
+				block = null
+		}
+	}
+
+	const none: BlkCompletionContext = { kind: 'none', prefix: "", start: character, block: block, multipleTemplates: false }
+	if (blockComment || lineComment)
+		return none
+
+	const linePrefix = text.substring(lineStart, offset)
+	const context = (kind: BlkCompletionContextKind, prefix: string, multipleTemplates = false): BlkCompletionContext => {
+		return { kind: kind, prefix: prefix, start: character - prefix.length, block: block, multipleTemplates: multipleTemplates }
+	}
+
+	let match = /(?:^|[\s;{}])include\s+"?([^"]*)$/.exec(linePrefix)
+	if (match)
+		return context('include', match[1])
+	match = /(?:^|[\s;{])"?_use"?\s*:\s*t\s*=\s*"?([^";+]*)$/.exec(linePrefix)
+	if (match)
+		return context('template', match[1])
+	match = /(?:^|[\s;{])"?_template"?\s*:\s*t\s*=\s*"?([^";]*)$/.exec(linePrefix)
+	if (match) {
+		const parts = match[1].split("+")
+		return context('template', parts[parts.length - 1], true)
+	}
+	if (quote)
+		return none
+	match = /(?:^|[\s;{])"?[\w.-]+"?\s*:\s*(\w*)$/.exec(linePrefix)
+	if (match)
+		return context('type', match[1])
+	match = /(?:^|[\s;{])"?([\w.-]*)$/.exec(linePrefix)
+	if (match)
+		return context(depth > 0 ? 'component' : 'root', match[1])
+	return none
+}
@@ -0,0 +1,150 @@
+import { BlkBlock, BlkComment, BlkEmptyLine, BlkIncludes, BlkLocation, BlkParam } from './blkBlock'
+
+export interface BlkFormatOptions {
+	indent: string
+	newLine: string
+	alignEquals: boolean // align '=' of params inside of block
+}
+
+type BlkElement =
+	{ kind: 'block', location: BlkLocation, value: BlkBlock } |
+	{ kind: 'param', location: BlkLocation, value: BlkParam } |
+	{ kind: 'include', location: BlkLocation, value: BlkIncludes } |
+	{ kind: 'comment', location: BlkLocation, value: BlkComment } |
+	{ kind: 'empty line', location: BlkLocation, value: BlkEmptyLine }
+
+function getElements(blk: BlkBlock): BlkElement[] {
+	const res: BlkElement[] = []
+	for (const it of blk.blocks ?? [])
+		res.push({ kind: 'block', location: it.location, value: it })
+	for (const it of blk.params ?? [])
+		res.push({ kind: 'param', location: it.location, value: it })
+	for (const it of blk.includes ?? [])
+		res.push({ kind: 'include', location: it.location, value: it })
+	for (const it of blk.comments ?? [])
+		res.push({ kind: 'comment', location: it.location, value: it })
+	for (const it of blk.emptyLines ?? [])
+		res.push({ kind: 'empty line', location: it.location, value: it })
+	return res.sort((a, b) => a.location.start.offset - b.location.start.offset)
+}
+
+const paramRegExp = /^[ \t]*("[^"\r\n]*"|[^\s:]+)\s*:\s*([a-zA-Z0-9]+)\s*=\s*([\s\S]*?)[ \t]*;?[ \t]*$/
+
+// splits param source to name, type and value, value is kept as is
+function paramParts(param: BlkParam, text: string): string[] {
+	const src = text.substring(param.location.start.offset, param.location.end.offset)
+	const match = paramRegExp.exec(src)
+	return match ? [match[1], match[2], match[3]] : null
+}
+
+class BlkPrinter {
+	lines: string[] = []
+
+	constructor(private text: string, private options: BlkFormatOptions) { }
+
+	private indent(depth: number) { return this.options.indent.repeat(depth) }
+
+	private source(location: BlkLocation) { return this.text.substring(location.start.offset, location.end.offset) }
+
+	printElements(blk: BlkBlock, depth: number, headerLine: number) {
+		const elements = getElements(blk)
+		const params = elements.filter(it => it.kind == 'param').map(it => paramParts(<BlkParam>it.value, this.text))
+		const nameWidth = this.options.alignEquals ? Math.max(0, ...params.map(it => it ? it[0].length + it[1].length + 1 : 0)) : 0
+
+		let lastLine = headerLine // source line of last printed element end
+		let blankLine = false
+		let printed = false
+		for (const it of elements) {
+			switch (it.kind) {
+				case 'empty line':
+					// empty line element also ends each non empty line, only lines without content are blank lines
+					if (it.location.start.column == 1 && printed)
+						blankLine = true
+					continue
+				case 'comment':
+					if (it.location.start.line == lastLine && this.lines.length > 0) {
+						this.lines[this.lines.length - 1] += " " + it.value.value
+						lastLine = it.location.end.line
+						continue
+					}
+					this.push(depth, it.value.value, blankLine)
+					break
+				case 'include':
+					this.push(depth, "include " + this.source(it.location).substr("include".length).trim(), blankLine)
+					break
+				case 'param': {
+					const parts = paramParts(it.value, this.text)
+					if (!parts) {
+						this.push(depth, this.source(it.location).trim(), blankLine)
+						break
+					}
+					const name = `${parts[0]}:${parts[1]}`
+					this.push(depth, `${name}${" ".repeat(Math.max(0, nameWidth - name.length))}=${parts[2]}`, blankLine)
+					break
+				}
+				case 'block':
+					this.printBlock(it.value, depth, blankLine)
+					break
+			}
+			lastLine = it.location.end.line
+			blankLine = false
+			printed = true
+		}
+	}
+
+	printBlock(blk: BlkBlock, depth: number, blankLine = false) {
+		const hasContent = (blk.blocks?.length ?? 0) + (blk.params?.length ?? 0) + (blk.includes?.length ?? 0) + (blk.comments?.length ?? 0) > 0
+		if (!hasContent) {
+			this.push(depth, `${blk.name}{}`, blankLine)
+			return
+		}
+		this.push(depth, `${blk.name}{`, blankLine)
+		this.printElements(blk, depth + 1, blk.location.start.line)
+		this.push(depth, "}")
+	}
+
+	private push(depth: number, line: string, blankLine = false) {
+		if (blankLine)
+			this.lines.push("")
+		this.lines.push(this.indent(depth) + line)
+	}
+}
+
+// blkFile is parsed text without any postprocessing
+export function formatBlk(blkFile: BlkBlock, text: string, options: BlkFormatOptions): string {
+	const printer = new BlkPrinter(text, options)
+	printer.printElements(blkFile, 0, 0)
+	return printer.lines.join(options.newLine) + options.newLine
+}
+
+// formats top level blocks, params and includes which intersect with range
+export function formatBlkElements(blkFile: BlkBlock, text: string, options: BlkFormatOptions, startLine: number, endLine: number): { location: BlkLocation, text: string }[] {
+	const res: { location: BlkLocation, text: string }[] = []
+	for (const it of getElements(blkFile)) {
+		if (it.location.end.line - 1 < startLine || it.location.start.line - 1 > endLine)
+			continue
+		if (it.kind != 'block' && it.kind != 'param' && it.kind != 'include')
+			continue
+		const printer = new BlkPrinter(text, options)
+		const blk: BlkBlock = {
+			blocks: it.kind == 'block' ? [it.value] : [],
+			params: it.kind == 'param' ? [it.value] : [],
+			includes: it.kind == 'include' ? [it.value] : [],
+			comments: [],
+			emptyLines: [],
+			errors: [],
+			location: it.location,
+			name: "",
+		}
+		printer.printElements(blk, 0, 0)
+		// top level elements start at line start, leading whitespaces are replaced too
+		const location = BlkLocation.clone(it.location)
+		const lineStart = text.lastIndexOf("\n", location.start.offset - 1) + 1
+		if (text.substring(lineStart, location.start.offset).trim().length == 0) {
+			location.start.column -= location.start.offset - lineStart
+			location.start.offset = lineStart
+		}
+		res.push({ location: location, text: printer.lines.join(options.newLine) })
+	}
+	return res
+}
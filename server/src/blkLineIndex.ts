@@ -0,0 +1,30 @@
+import { Position, Range } from 'vscode-languageserver'
+
+// line starts of text, build it once per request when many offsets are converted
+export class LineIndex {
+	private lineStarts: number[] = [0]
+
+	constructor(private text: string) {
+		for (let i = 0; i < text.length; i++)
+			if (text[i] == "\n")
+				this.lineStarts.push(i + 1)
+	}
+
+	positionAt(offset: number): Position {
+		let low = 0
+		let high = this.lineStarts.length - 1
+		while (low < high) {
+			const mid = (low + high + 1) >> 1
+			if (this.lineStarts[mid] <= offset) low = mid; else high = mid - 1
+		}
+		return { line: low, character: offset - this.lineStarts[low] }
+	}
+
+	offsetAt(position: Position): number {
+		if (position.line >= this.lineStarts.length)
+			return this.text.length
+		return Math.min(this.lineStarts[position.line] + position.character, this.text.length)
+	}
+
+	range(start: number, end: number): Range { return { start: this.positionAt(start), end: this.positionAt(end) } }
+}
@@ -0,0 +1,93 @@
+import { FoldingRange, FoldingRangeKind, Position, Range, SelectionRange } from 'vscode-languageserver'
+import { BlkBlock, BlkComment, BlkIncludes, BlkLocation, BlkParam } from './blkBlock'
+import { LineIndex } from './blkLineIndex'
+
+// consecutive elements, each next one starts at next line after previous one
+function groupByLines<T extends { location: BlkLocation }>(items: T[]): T[][] {
+	const res: T[][] = []
+	for (const it of items.slice().sort((a, b) => a.location.start.offset - b.location.start.offset)) {
+		const last = res.length > 0 ? res[res.length - 1] : null
+		if (last && it.location.start.line == last[last.length - 1].location.end.line + 1)
+			last.push(it)
+		else
+			res.push([it])
+	}
+	return res
+}
+
+function pushFolding(res: FoldingRange[], startLine: number, endLine: number, kind?: string) {
+	if (endLine > startLine)
+		res.push({ startLine: startLine - 1, endLine: endLine - 1, kind: kind })
+}
+
+function pushBlockFoldings(res: FoldingRange[], blk: BlkBlock) {
+	for (const group of groupByLines<BlkComment>(blk.comments ?? []))
+		pushFolding(res, group[0].location.start.line, group[group.length - 1].location.end.line, FoldingRangeKind.Comment)
+	for (const group of groupByLines<BlkIncludes>(blk.includes ?? []))
+		pushFolding(res, group[0].location.start.line, group[group.length - 1].location.end.line, FoldingRangeKind.Imports)
+	for (const child of blk.blocks ?? []) {
+		// line of closing brace stays visible
+		pushFolding(res, child.location.start.line, child.location.end.line - 1)
+		pushBlockFoldings(res, child)
+	}
+}
+
+// blkFile is parsed text without postprocessing, comments and includes are required
+export function buildFoldingRanges(blkFile: BlkBlock): FoldingRange[] {
+	const res: FoldingRange[] = []
+	pushBlockFoldings(res, blkFile)
+	return res
+}
+
+const paramValueRegExp = /^[ \t]*("[^"\r\n]*"|[^\s:]+)\s*:\s*[a-zA-Z0-9]+\s*=[ \t]*/
+
+// location without trailing line break and ';'
+function trimmedEnd(text: string, location: BlkLocation): number {
+	let end = location.end.offset
+	while (end > location.start.offset && /[\s;]/.test(text[end - 1]))
+		end--
+	return end
+}
+
+function pushParamRanges(res: Range[], text: string, lines: LineIndex, param: BlkParam) {
+	const end = trimmedEnd(text, param.location)
+	res.push(lines.range(param.indent.end.offset, end))
+	const match = paramValueRegExp.exec(text.substring(param.location.start.offset, end))
+	if (match && param.location.start.offset + match[0].length < end)
+		res.push(lines.range(param.location.start.offset + match[0].length, end))
+}
+
+// ranges around position from top level block to innermost element
+function getRanges(text: string, lines: LineIndex, blk: BlkBlock, position: Position, res: Range[]) {
+	for (const child of blk.blocks ?? [])
+		if (BlkLocation.isPosInLocation(child.location, position)) {
+			res.push(BlkLocation.toRange(child.location))
+			getRanges(text, lines, child, position, res)
+			return
+		}
+	for (const param of blk.params ?? [])
+		if (BlkLocation.isPosInLocation(param.location, position)) {
+			pushParamRanges(res, text, lines, param)
+			return
+		}
+	for (const include of blk.includes ?? [])
+		if (BlkLocation.isPosInLocation(include.location, position)) {
+			res.push(lines.range(include.location.start.offset, trimmedEnd(text, include.location)))
+			return
+		}
+}
+
+// blkFile is parsed text without postprocessing, params keep indent without quotes correction
+export function buildSelectionRanges(blkFile: BlkBlock, text: string, positions: Position[]): SelectionRange[] {
+	const lines = new LineIndex(text)
+	return positions.map(position => {
+		const ranges: Range[] = []
+		getRanges(text, lines, blkFile, position, ranges)
+		let res: SelectionRange = { range: BlkLocation.toRange(blkFile.location) }
+		// empty and repeated ranges are skipped
+		for (const range of ranges)
+			if ((range.start.line != range.end.line || range.start.character != range.end.character) && JSON.stringify(range) != JSON.stringify(res.range))
+				res = { range: range, parent: res }
+		return res
+	})
+}
@@ -0,0 +1,153 @@
+import { SemanticTokens, SemanticTokensLegend } from 'vscode-languageserver'
+import { BlkBlock, BlkParam, isComponentName, entityWithTemplateName, extendsField, templateField, groupBlock } from './blkBlock'
+import { LineIndex } from './blkLineIndex'
+
+export const tokenTypes = ["class", "property", "type", "keyword", "string"]
+export const tokenModifiers = ["declaration", "defined", "undefined", "override"]
+
+export const semanticTokensLegend: SemanticTokensLegend = { tokenTypes: tokenTypes, tokenModifiers: tokenModifiers }
+
+export interface SemanticTokensContext {
+	isTemplateDefined(name: string): boolean
+	getInheritedComponents(blk: BlkBlock): Set<string>
+}
+
+interface SemanticToken {
+	line: number
+	character: number
+	length: number
+	type: number
+	modifiers: number
+}
+
+class SemanticTokensBuilder {
+	private tokens: SemanticToken[] = []
+	private lines: LineIndex
+
+	constructor(text: string) {
+		this.lines = new LineIndex(text)
+	}
+
+	push(offset: number, length: number, type: string, modifiers: string[] = []) {
+		if (length <= 0 || offset < 0)
+			return
+		const position = this.lines.positionAt(offset)
+		this.tokens.push({
+			line: position.line,
+			character: position.character,
+			length: length,
+			type: tokenTypes.indexOf(type),
+			modifiers: modifiers.reduce((res, it) => res | (1 << tokenModifiers.indexOf(it)), 0),
+		})
+	}
+
+	build(): number[] {
+		this.tokens.sort((a, b) => a.line - b.line || a.character - b.character)
+		const data: number[] = []
+		let line = 0
+		let character = 0
+		for (const it of this.tokens) {
+			data.push(it.line - line, it.line == line ? it.character - character : it.character, it.length, it.type, it.modifiers)
+			line = it.line
+			character = it.character
+		}
+		return data
+	}
+}
+
+// skips whitespaces and expected char, returns -1 if there is no such char
+function skipTo(text: string, offset: number, ch: string): number {
+	while (offset < text.length && /\s/.test(text[offset]))
+		offset++
+	if (text[offset] != ch)
+		return -1
+	offset++
+	while (offset < text.length && /\s/.test(text[offset]))
+		offset++
+	return offset
+}
+
+function pushTemplates(builder: SemanticTokensBuilder, context: SemanticTokensContext, offset: number, value: string) {
+	if (value.startsWith("\"")) {
+		offset++
+		value = value.substr(1, value.length - 2)
+	}
+	for (const part of value.split("+")) {
+		const name = part.trim()
+		if (name.length > 0)
+			builder.push(offset + part.indexOf(name), name.length, "class", [context.isTemplateDefined(name) ? "defined" : "undefined"])
+		offset += part.length + 1
+	}
+}
+
+function pushParam(builder: SemanticTokensBuilder, context: SemanticTokensContext, text: string, param: BlkParam, inherited: Set<string>) {
+	const start = param.indent.end.offset
+	const component = isComponentName(param._name)
+	builder.push(start, param._name.length, component ? "property" : "keyword",
+		component && inherited && inherited.has(param._name) ? ["override"] : [])
+	let offset = start + param._name.length
+	if (text[offset] == "\"")
+		offset++
+	offset = skipTo(text, offset, ":")
+	if (offset < 0)
+		return
+	builder.push(offset, param._type.length, "type")
+	offset = skipTo(text, offset + param._type.length, "=")
+	if (offset < 0 || param._type != "t")
+		return
+	if (param._name == extendsField || param._name == templateField)
+		pushTemplates(builder, context, offset, param._value)
+}
+
+function pushBlockName(builder: SemanticTokensBuilder, blk: BlkBlock, type: string, modifiers: string[] = []) {
+	let offset = blk.location.start.offset
+	let name = blk.name
+	if (name.startsWith("\"")) {
+		offset++
+		name = name.substr(1, name.length - 2)
+	}
+	const parts = name.split(":")
+	if (parts.length > 1 && type == "property") {
+		builder.push(offset, parts[0].length, type, modifiers)
+		builder.push(offset + parts[0].length + 1, name.length - parts[0].length - 1, "type")
+	}
+	else
+		builder.push(offset, name.length, type, modifiers)
+}
+
+function pushBlock(builder: SemanticTokensBuilder, context: SemanticTokensContext, text: string, blk: BlkBlock, depth: number, inherited: Set<string>) {
+	for (const include of blk.includes ?? []) {
+		const start = include.location.start.offset
+		builder.push(start, "include".length, "keyword")
+		const offset = text.indexOf(include.value, start + "include".length)
+		if (offset >= 0 && offset < include.location.end.offset)
+			builder.push(offset, include.value.length, "string")
+	}
+	for (const param of blk.params)
+		pushParam(builder, context, text, param, inherited)
+	for (const child of blk.blocks) {
+		if (depth == 0) {
+			if (child.name == entityWithTemplateName)
+				pushBlockName(builder, child, "keyword")
+			else
+				pushBlockName(builder, child, "class", ["declaration"])
+			pushBlock(builder, context, text, child, depth + 1, context.getInheritedComponents(child))
+		}
+		else if (child.name == groupBlock) {
+			pushBlockName(builder, child, "keyword")
+			pushBlock(builder, context, text, child, depth + 1, inherited)
+		}
+		else {
+			const name = child.name.replace(/^"|"$/g, "").split(":")[0].trim()
+			pushBlockName(builder, child, "property", inherited && inherited.has(name) ? ["override"] : [])
+			pushBlock(builder, context, text, child, depth + 1, null)
+		}
+	}
+}
+
+// blkFile is parsed text without flattening of _group blocks
+export function buildSemanticTokens(blkFile: BlkBlock, text: string, context: SemanticTokensContext): SemanticTokens {
+	const builder = new SemanticTokensBuilder(text)
+	pushBlock(builder, context, text, blkFile, 0, null)
+	return { data: builder.build() }
+}
@@ -0,0 +1,99 @@
+import { SymbolKind, TypeHierarchyItem } from 'vscode-languageserver'
+import { basename } from 'path'
+import { URI } from 'vscode-uri'
+import { BlkBlock, BlkLocation, entityWithTemplateName, extendsField, templateField } from './blkBlock'
+import { files, getTemplateBlocks, removeQuotes, splitAndRemoveQuotes } from './blkWorkspace'
+
+interface TypeHierarchyItemData {
+	name: string
+	filePath: string
+	line: number // header line of block, it identifies one of overridden templates
+}
+
+function templateParams(blk: BlkBlock, field: string): string[] {
+	const res: string[] = []
+	for (const param of blk.params)
+		if (param._name == field && param._type == "t" && param._value.length > 0)
+			res.push(...splitAndRemoveQuotes(removeQuotes(param._value)).map(it => it.trim()).filter(it => it.length > 0))
+	return res
+}
+
+export function toTypeHierarchyItem(filePath: string, blk: BlkBlock): TypeHierarchyItem {
+	const entity = blk.name == entityWithTemplateName
+	const range = BlkLocation.toRange(blk.location)
+	return {
+		name: removeQuotes(blk.name),
+		kind: entity ? SymbolKind.Object : SymbolKind.Class,
+		detail: entity ? `${templateParams(blk, templateField).join("+")} ${basename(filePath)}` : basename(filePath),
+		uri: URI.file(filePath).toString(),
+		range: range,
+		selectionRange: { start: range.start, end: { line: range.start.line, character: range.start.character + blk.name.length } },
+		data: { name: blk.name, filePath: filePath, line: blk.location.start.line },
+	}
+}
+
+function findBlock(data: TypeHierarchyItemData): BlkBlock {
+	const blk = files.get(data.filePath)?.blocks.find(it => it.location.start.line == data.line && it.name == data.name)
+	if (blk)
+		return blk
+	// file was changed after item was created
+	return data.name != entityWithTemplateName ? getTemplateBlocks(data.name)[0]?.blk : null
+}
+
+// parent templates of template, templates of entity
+export function getSupertypes(item: TypeHierarchyItem): TypeHierarchyItem[] {
+	const blk = item.data ? findBlock(item.data) : null
+	if (!blk)
+		return []
+	const res: TypeHierarchyItem[] = []
+	for (const name of templateParams(blk, blk.name == entityWithTemplateName ? templateField : extendsField))
+		for (const it of getTemplateBlocks(name))
+			res.push(toTypeHierarchyItem(it.filePath, it.blk))
+	return res
+}
+
+// templates which use template as parent and entities which are composed of it
+export function getSubtypes(item: TypeHierarchyItem): TypeHierarchyItem[] {
+	const name = item.data?.name
+	if (!name || name == entityWithTemplateName)
+		return []
+	const res: TypeHierarchyItem[] = []
+	for (const [filePath, blkFile] of files)
+		for (const blk of blkFile?.blocks ?? [])
+			if (templateParams(blk, blk.name == entityWithTemplateName ? templateField : extendsField).indexOf(name) >= 0)
+				res.push(toTypeHierarchyItem(filePath, blk))
+	return res
+}
+
+function itemToString(item: TypeHierarchyItem): string {
+	const line = item.range.start.line + 1
+	return `${item.name}  ${item.detail}:${line}`
+}
+
+function pushTree(lines: string[], item: TypeHierarchyItem, depth: number, next: (item: TypeHierarchyItem) => TypeHierarchyItem[], visited: Set<string>) {
+	const key = `${item.uri}:${item.range.start.line}`
+	const recursive = visited.has(key)
+	lines.push(`${"  ".repeat(depth)}${itemToString(item)}${recursive ? "  (recursive)" : ""}`)
+	if (recursive)
+		return
+	visited.add(key)
+	for (const it of next(item))
+		pushTree(lines, it, depth + 1, next, visited)
+	visited.delete(key)
+}
+
+// text view of whole hierarchy for clients without type hierarchy support
+export function typeHierarchyToString(items: TypeHierarchyItem[]): string {
+	const lines: string[] = []
+	for (const item of items) {
+		lines.push(`supertypes of '${item.name}':`)
+		pushTree(lines, item, 1, getSupertypes, new Set())
+		// entities have no subtypes
+		if (item.kind != SymbolKind.Object) {
+			lines.push("", `subtypes of '${item.name}':`)
+			pushTree(lines, item, 1, getSubtypes, new Set())
+		}
+		lines.push("")
+	}
+	return lines.join("\n")
+}
@@ -0,0 +1,1297 @@
+import { CompletionItem, CompletionItemKind, Diagnostic, DiagnosticSeverity, DiagnosticTag, InsertTextFormat, Range } from 'vscode-languageserver'
+import { parse } from './blk'
+import { readFile, writeFile, stat, statSync, existsSync, mkdir } from 'fs'
+import { extname, dirname, relative, join, resolve, isAbsolute, sep } from 'path'
+import { URI } from 'vscode-uri'
+import { findFile, findMountPoint, walk } from './fsUtils'
+import { paramSnippet } from './blkCompletion'
+import { BlkBlock, BlkParam, BlkComment, BlkPosition, BlkLocation, isComponentName, entityWithTemplateName, templateField, extendsField, overrideField, groupBlock, importField, importSceneField } from './blkBlock'
+
+// workspace state and validation, shared by language server and command line tools
+
+let log: (message: string) => void = () => { /* silent by default */ }
+
+export function setLogger(logger: (message: string) => void) { log = logger }
+
+export const workspaces: Set</*fsPath*/string> = new Set()
+export const fileContents: Map</*fsPath*/string, string> = new Map() // content of open files
+export const outdatedFiles: Set</*fsPath*/string> = new Set() // parsed data doesn't match content because of syntax errors
+export const files: Map</*fsPath*/string, BlkBlock> = new Map()
+const mountPoints: Map</*workspace fsPath*/string, Map</*prefix*/string, /*dir*/string>> = new Map()
+const fileStamps: Map</*fsPath*/string, { mtime: number, size: number }> = new Map() // stats of file when it was read from disk
+
+const extendsInFiles: Map</*fsPath*/string, Map</*template*/string, number>> = new Map()
+const entitiesInScenes: Map</*fsPath*/string, Map</*template*/string, number>> = new Map()
+const templatesInFiles: Map</*fsPath*/string, Map</*template*/string, number>> = new Map()
+let usagesInvalid = true
+const usagesMap: Map<string, TemplateUsages> = new Map()
+let unusedTemplatesHint = false
+let unusedTemplatesKey = ""
+
+let templatesIndexInvalid = true
+const templatesIndex: Map</*template*/string, TemplateBlock[]> = new Map()
+
+const parentsInFiles: Map</*fsPath*/string, Map</*template*/string, /*parents*/string[]>> = new Map()
+let cyclesInvalid = true
+let cyclesKey = ""
+export const cycles: Map</*template*/string, Map</*parent*/string, /*cycle path*/string[]>> = new Map()
+
+const includesInFiles: Map</*fsPath*/string, /*include paths*/string[]> = new Map()
+let includeGraphInvalid = true
+const includeGraph: Map</*fsPath*/string, /*included files*/string[]> = new Map()
+
+const completion: Map</*fsPath*/string, CompletionItem[]> = new Map()
+let completionCacheInvalid = true
+let completionCache: CompletionItem[] = []
+
+// mount points of '#' and '%' include prefixes, relative dirs are resolved from workspace
+export function setMountPoints(workspaceFsPath: string, mounts: { [prefix: string]: string }) {
+	const res: Map<string, string> = new Map()
+	for (const prefix in mounts ?? {})
+		if ((prefix.startsWith("#") || prefix.startsWith("%")) && typeof mounts[prefix] == "string")
+			res.set(prefix, resolve(workspaceFsPath, mounts[prefix]))
+	if (JSON.stringify(Array.from(res)) != JSON.stringify(Array.from(mountPoints.get(workspaceFsPath) ?? [])))
+		includeGraphInvalid = true
+	mountPoints.set(workspaceFsPath, res)
+}
+
+// mount points of workspace of file, all mount points for files outside of workspaces
+function getMountPoints(cwd: string): Map<string, string> {
+	let workspace: string = null
+	for (const ws of mountPoints.keys())
+		if ((cwd == ws || cwd.startsWith(ws.endsWith(sep) ? ws : ws + sep)) && (!workspace || ws.length > workspace.length))
+			workspace = ws
+	if (workspace)
+		return mountPoints.get(workspace)
+	const res: Map<string, string> = new Map()
+	for (const mounts of mountPoints.values())
+		for (const [prefix, dir] of mounts)
+			if (!res.has(prefix))
+				res.set(prefix, dir)
+	return res
+}
+
+export function clearFiles() {
+	files.clear()
+	fileStamps.clear()
+	includeGraphInvalid = true
+	templatesIndexInvalid = true
+}
+
+export function purgeFile(fsPath: string) {
+	fileContents.delete(fsPath)
+	outdatedFiles.delete(fsPath)
+	files.delete(fsPath)
+	fileStamps.delete(fsPath)
+	templatesIndexInvalid = true
+	usagesInvalid = true
+	extendsInFiles.delete(fsPath)
+	entitiesInScenes.delete(fsPath)
+	templatesInFiles.delete(fsPath)
+	completionCacheInvalid = true
+	completion.delete(fsPath)
+	if (parentsInFiles.delete(fsPath))
+		cyclesInvalid = true
+	if (includesInFiles.delete(fsPath))
+		includeGraphInvalid = true
+}
+
+function addCompletion(filePath: string, name: string, type: string, kind: CompletionItemKind, block = false, doc: string = null) {
+	if ((name?.length ?? 0) == 0)
+		return
+	completionCacheInvalid = true
+	const item: CompletionItem = { label: (type?.length ?? 0) == 0 ? name : `${name}:${type}`, kind: kind }
+	if (doc)
+		item.documentation = doc
+	if (kind == CompletionItemKind.Field) {
+		item.insertText = paramSnippet(name, type, block)
+		item.insertTextFormat = InsertTextFormat.Snippet
+	}
+	if (!completion.has(filePath)) completion.set(filePath, [item]); else completion.get(filePath).push(item)
+}
+
+export interface TemplateUsages {
+	children: number // templates with template as '_use' parent
+	entities: number // entities with template in '_template'
+	definitions: number // templates with same name, overrides included
+}
+
+export function getUsages(): Map</*template*/string, TemplateUsages> {
+	if (usagesInvalid) {
+		usagesMap.clear()
+		usagesInvalid = false
+
+		const add = (fileMaps: Iterable<Map<string, number>>, field: keyof TemplateUsages) => {
+			for (const fileMap of fileMaps)
+				for (const [key, value] of fileMap) {
+					if (!usagesMap.has(key))
+						usagesMap.set(key, { children: 0, entities: 0, definitions: 0 })
+					usagesMap.get(key)[field] += value
+				}
+		}
+		add(extendsInFiles.values(), "children")
+		add(entitiesInScenes.values(), "entities")
+		add(templatesInFiles.values(), "definitions")
+	}
+	return usagesMap
+}
+
+// templates without '_use' children and entities, each definition of overridden template is listed
+export function getUnusedTemplates(): TemplatePos[] {
+	const usagesMap = getUsages()
+	const res: TemplatePos[] = []
+	for (const filePath of Array.from(files.keys()).sort())
+		for (const blk of files.get(filePath)?.blocks ?? []) {
+			const usages = blk.name != entityWithTemplateName ? usagesMap.get(removeQuotes(blk.name)) : null
+			if (usages && usages.children == 0 && usages.entities == 0)
+				res.push({ name: blk.name, filePath: filePath, location: blk.location })
+		}
+	return res
+}
+
+export function unusedTemplatesToString(templates: TemplatePos[], displayPath: (fsPath: string) => string): string {
+	const lines: string[] = []
+	const fileCount = new Set(templates.map(it => it.filePath)).size
+	lines.push(`// ${templates.length} unused template${templates.length == 1 ? "" : "s"} in ${fileCount} file${fileCount == 1 ? "" : "s"}`)
+	let filePath: string = null
+	for (const it of templates) {
+		if (it.filePath != filePath) {
+			filePath = it.filePath
+			lines.push("", displayPath(filePath))
+		}
+		lines.push(`  ${it.name}:${it.location.start.line}`)
+	}
+	return lines.join("\n")
+}
+
+// unused templates are reported by validateFile as faded hints
+export function setUnusedTemplatesHint(enabled: boolean) {
+	unusedTemplatesHint = enabled
+	unusedTemplatesKey = ""
+}
+
+// true if hints are enabled and set of unused templates was changed
+export function updateUnusedTemplates(): boolean {
+	if (!unusedTemplatesHint)
+		return false
+	const key = Array.from(new Set(getUnusedTemplates().map(it => it.name))).join(",")
+	const changed = key != unusedTemplatesKey
+	unusedTemplatesKey = key
+	return changed
+}
+
+export function getCompletionCache(): CompletionItem[] {
+	if (completionCacheInvalid) {
+		const start = Date.now()
+		completionCacheInvalid = false
+		const completionCacheMap: Map<string, CompletionItem> = new Map()
+		for (const file of completion.values())
+			for (const it of file)
+				// documented component is preferred
+				if (!completionCacheMap.has(it.label) || (!completionCacheMap.get(it.label).documentation && it.documentation))
+					completionCacheMap.set(it.label, it)
+		completionCache = Array.from(completionCacheMap.values())
+		completionCacheMap.clear()
+		log(`invalidate completion cache: ${completionCache.length} records from ${completion.size} files in ${Date.now() - start}ms`)
+	}
+	return completionCache
+}
+
+// text of comment without comment marks
+function commentText(comment: BlkComment): string {
+	const text = comment.format == 'line' ? comment.value.replace(/^\/\/+/, "") : comment.value.replace(/^\/\*+/, "").replace(/\*+\/$/, "")
+	return text.split("\n").map(it => it.replace(/^\s*\*?\s?/, "").replace(/\s+$/, "")).join("\n").trim()
+}
+
+// comments before element without empty lines between or at the end of param line are documentation of element
+function attachDocs(blk: BlkBlock) {
+	const comments = blk.comments ?? []
+	if (comments.length == 0)
+		return
+	const params = blk.params ?? []
+	const blocks = blk.blocks ?? []
+	const usedLines: Set<number> = new Set()
+	// comments in header of block aren't documentation of its first element, root block has no header
+	if (blk.name.length > 0)
+		usedLines.add(blk.location.start.line)
+	for (const it of params)
+		usedLines.add(it.location.start.line)
+	for (const it of blk.includes ?? [])
+		usedLines.add(it.location.start.line)
+	for (const it of blocks)
+		usedLines.add(it.location.start.line).add(it.location.end.line)
+	const commentsAtEnd: Map</*end line*/number, BlkComment> = new Map()
+	for (const it of comments)
+		if (!usedLines.has(it.location.start.line))
+			commentsAtEnd.set(it.location.end.line, it)
+	const docOf = (location: BlkLocation, trailing: boolean) => {
+		const res: BlkComment[] = []
+		for (let it = commentsAtEnd.get(location.start.line - 1); it; it = commentsAtEnd.get(it.location.start.line - 1))
+			res.unshift(it)
+		if (trailing)
+			res.push(...comments.filter(it => it.location.start.line == location.start.line && it.location.start.offset > location.start.offset))
+		return res.length > 0 ? res.map(commentText).join("\n") : undefined
+	}
+	for (const it of params)
+		it.doc = docOf(it.location, true)
+	for (const it of blocks)
+		it.doc = docOf(it.location, false)
+}
+
+export function cleanupBlkBlock(blk: BlkBlock, depth: number) {
+	if (!blk)
+		return
+	attachDocs(blk)
+	delete blk.comments
+	delete blk.emptyLines
+	blk.blocks = blk.blocks ?? []
+	for (const it of blk.blocks)
+		cleanupBlkBlock(it, depth + 1)
+	blk.params = blk.params ?? []
+	for (const it of blk.params)
+		cleanupBlkParam(it, depth)
+}
+
+function cleanupBlkParam(param: BlkParam, depth: number) {
+	// name, type and text of value are strings, only data is typed
+	const name = param.value.length > 0 ? param.value[0] as string : ""
+	param._name = removeQuotes(name)
+	param._type = param.value.length > 1 ? param.value[1] as string : ""
+	param._value = param.value.length > 2 ? param.value[2] as string : ""
+	param._data = param.value.length > 3 ? param.value[3] : null
+	param._block = false
+	if (name.startsWith(`"`)) {
+		param.indent.end.column++
+		param.indent.end.offset++
+	}
+	delete param.value
+}
+
+// moves components of _group blocks and child blocks to params of top level block
+function flattenBlock(blk: BlkBlock) {
+	for (const child of blk.blocks) {
+		if (child.name == groupBlock) {
+			for (const childParam of child.params) {
+				const newParam: BlkParam = {
+					indent: BlkLocation.clone(childParam.indent),
+					location: childParam.location,
+					value: null,
+					_name: childParam._name,
+					_type: childParam._type,
+					_value: childParam._value,
+					_data: childParam._data,
+					_block: false,
+					doc: childParam.doc,
+				}
+				if (newParam._name.startsWith(`"`)) {
+					newParam.indent.end.column++
+					newParam.indent.end.offset++
+				}
+				blk.params.push(newParam)
+			}
+			for (const childBlock of child.blocks)
+				blk.params.push(blockToParam(childBlock))
+		} else
+			blk.params.push(blockToParam(child))
+	}
+}
+
+function blockToParam(blk: BlkBlock): BlkParam {
+	const parts = removeQuotes(blk.name).split(":").map(it => it.trim())
+	const param: BlkParam = {
+		indent: BlkLocation.create(blk.location.start, blk.location.start),
+		location: blk.location,
+		value: null,
+		_name: parts.length > 0 ? parts[0] : "",
+		_type: parts.length > 1 ? parts[1] : "",
+		_value: "",
+		_data: null,
+		_block: true,
+		doc: blk.doc,
+	}
+	if (blk.name.startsWith(`"`)) {
+		param.indent.end.column++
+		param.indent.end.offset++
+	}
+	return param
+}
+
+export function processFile(fsPath: string, blkFile: BlkBlock, flattened = false) {
+	if (!blkFile)
+		return
+
+	if (!flattened) {
+		cleanupBlkBlock(blkFile, 0)
+		for (const blk of blkFile.blocks)
+			flattenBlock(blk)
+	}
+	completionCacheInvalid = true
+	completion.delete(fsPath)
+	usagesInvalid = true
+	extendsInFiles.delete(fsPath)
+	entitiesInScenes.delete(fsPath)
+	templatesInFiles.delete(fsPath)
+
+	const extendsInFile: Map<string, number> = new Map()
+	const entitiesInScene: Map<string, number> = new Map()
+	const templatesInFile: Map<string, number> = new Map()
+	const parentsInFile: Map<string, string[]> = new Map()
+
+	for (const blk of blkFile.blocks)
+		if (blk.name != entityWithTemplateName)
+			templatesInFile.set(blk.name, (templatesInFile.get(blk.name) ?? 0) + 1)
+	for (const blk of blkFile.blocks) {
+		addCompletion(fsPath, blk.name, "", CompletionItemKind.Struct, false, blk.doc)
+
+		for (const param of blk.params) {
+			if (param._name == extendsField && param._type == "t" && param._value.length > 0) {
+				const parentName = removeQuotes(param._value)
+				extendsInFile.set(parentName, extendsInFile.has(parentName) ? extendsInFile.get(parentName) + 1 : 1)
+				if (blk.name != entityWithTemplateName) {
+					if (!parentsInFile.has(blk.name)) parentsInFile.set(blk.name, [parentName]); else parentsInFile.get(blk.name).push(parentName)
+				}
+			}
+			addCompletion(fsPath, param._name, param._type, CompletionItemKind.Field, param._block, param.doc)
+		}
+
+		if (blk.name == entityWithTemplateName)
+			for (const param of blk.params)
+				if (param._name == templateField && param._type == "t" && param._value.length > 0)
+					for (const partName of splitAndRemoveQuotes(param._value))
+						entitiesInScene.set(partName, entitiesInScene.has(partName) ? entitiesInScene.get(partName) + 1 : 1)
+	}
+	if (extendsInFile.size > 0)
+		extendsInFiles.set(fsPath, extendsInFile)
+	if (entitiesInScene.size > 0)
+		entitiesInScenes.set(fsPath, entitiesInScene)
+	if (templatesInFile.size > 0)
+		templatesInFiles.set(fsPath, templatesInFile)
+
+	const prevParents = parentsInFiles.get(fsPath)
+	if (parentsInFile.size > 0)
+		parentsInFiles.set(fsPath, parentsInFile)
+	else
+		parentsInFiles.delete(fsPath)
+	if (JSON.stringify(Array.from(prevParents ?? [])) != JSON.stringify(Array.from(parentsInFile)))
+		cyclesInvalid = true
+
+	updateIncludes(fsPath, blkFile)
+}
+
+function updateIncludes(fsPath: string, blkFile: BlkBlock) {
+	const prevIncludes = includesInFiles.get(fsPath)
+	const includes = getIncludeRefs(blkFile).map(it => it.path)
+	includesInFiles.set(fsPath, includes)
+	if (!prevIncludes || JSON.stringify(prevIncludes) != JSON.stringify(includes))
+		includeGraphInvalid = true
+}
+
+// finds all _use cycles across workspace, returns true if set of cycles was changed
+export function updateCycles(): boolean {
+	if (!cyclesInvalid)
+		return false
+	cyclesInvalid = false
+	const start = Date.now()
+
+	const graph: Map<string, Set<string>> = new Map()
+	for (const fileMap of parentsInFiles.values())
+		for (const [name, parents] of fileMap) {
+			if (!graph.has(name))
+				graph.set(name, new Set())
+			for (const parent of parents)
+				graph.get(name).add(parent)
+		}
+
+	// Tarjan's strongly connected components
+	let index = 0
+	const indices: Map<string, number> = new Map()
+	const lowLinks: Map<string, number> = new Map()
+	const stack: string[] = []
+	const onStack: Set<string> = new Set()
+	const components: Set<string>[] = []
+	function connect(name: string) {
+		indices.set(name, index)
+		lowLinks.set(name, index)
+		index++
+		stack.push(name)
+		onStack.add(name)
+		for (const parent of graph.get(name) ?? []) {
+			if (!indices.has(parent)) {
+				connect(parent)
+				lowLinks.set(name, Math.min(lowLinks.get(name), lowLinks.get(parent)))
+			}
+			else if (onStack.has(parent))
+				lowLinks.set(name, Math.min(lowLinks.get(name), indices.get(parent)))
+		}
+		if (lowLinks.get(name) == indices.get(name)) {
+			const component: Set<string> = new Set()
+			let it: string
+			do {
+				it = stack.pop()
+				onStack.delete(it)
+				component.add(it)
+			} while (it != name)
+			if (component.size > 1)
+				components.push(component)
+		}
+	}
+	for (const name of graph.keys())
+		if (!indices.has(name))
+			connect(name)
+
+	// shortest path from parent back to template inside of component
+	function findPath(component: Set<string>, from: string, to: string): string[] {
+		const prev: Map<string, string> = new Map([[from, null]])
+		const queue = [from]
+		while (queue.length > 0) {
+			const name = queue.shift()
+			if (name == to) {
+				const path: string[] = []
+				for (let it = to; it != null; it = prev.get(it))
+					path.unshift(it)
+				return path
+			}
+			for (const parent of graph.get(name) ?? [])
+				if (component.has(parent) && !prev.has(parent)) {
+					prev.set(parent, name)
+					queue.push(parent)
+				}
+		}
+		return null
+	}
+
+	cycles.clear()
+	for (const component of components)
+		for (const name of component) {
+			const templateCycles: Map<string, string[]> = new Map()
+			for (const parent of graph.get(name))
+				if (parent != name && component.has(parent)) {
+					const path = findPath(component, parent, name)
+					if (path)
+						templateCycles.set(parent, [name].concat(path))
+				}
+			cycles.set(name, templateCycles)
+		}
+
+	const key = JSON.stringify(Array.from(cycles.keys()).sort())
+	const changed = key != cyclesKey
+	cyclesKey = key
+	log(`update cycles: ${cycles.size} templates in ${components.length} cycles in ${Date.now() - start}ms`)
+	return changed
+}
+
+export interface IncludeRef {
+	path: string // as written in file
+	location: BlkLocation
+}
+
+// include "...", import:t="..." and import{ scene:t="..." }
+export function getIncludeRefs(blkFile: BlkBlock, depth = 0, res: IncludeRef[] = []): IncludeRef[] {
+	for (const include of blkFile.includes ?? [])
+		if (include.value.length > 0)
+			res.push({ path: include.value, location: include.location })
+	if (depth == 0)
+		for (const param of blkFile.params ?? [])
+			if (param._name == importField && param._type == "t" && param._value.length > 0)
+				res.push({ path: removeQuotes(param._value), location: param.location })
+	for (const blk of blkFile.blocks ?? []) {
+		if (depth == 0 && blk.name == importField)
+			for (const param of blk.params)
+				if (param._name == importSceneField && param._type == "t" && param._value.length > 0)
+					res.push({ path: removeQuotes(param._value), location: param.location })
+		getIncludeRefs(blk, depth + 1, res)
+	}
+	return res
+}
+
+const assetExtensions = new Set([".blk", ".das", ".dds", ".tga", ".png", ".jpg", ".jpeg", ".tif", ".tiff", ".ktx", ".svg", ".dynmodel", ".rendinst", ".fbx", ".obj", ".gltf", ".glb"])
+
+// string values which look like file paths: blk files, das scripts, textures and models
+export function getAssetRefs(blkFile: BlkBlock, res: IncludeRef[] = [], visited: Set<BlkLocation> = new Set()): IncludeRef[] {
+	for (const param of blkFile.params ?? []) {
+		// params of _group blocks are also copied to top level block
+		if (visited.has(param.location) || param._type != "t" || param._value.length == 0)
+			continue
+		visited.add(param.location)
+		const path = removeQuotes(param._value).trim()
+		if (assetExtensions.has(extname(path).toLowerCase()))
+			res.push({ path: path, location: param.location })
+	}
+	for (const blk of blkFile.blocks ?? [])
+		getAssetRefs(blk, res, visited)
+	return res
+}
+
+export interface IncludeResolution {
+	paths: string[] // existing files
+	mountPoint: string // configured mount point or first folder of path with '#' or '%' prefix
+	mountPaths: string[] // folders where mount point was looked for
+}
+
+export function resolveInclude(path: string, cwd: string): IncludeResolution {
+	const paths = Array.from(new Set(findWSFile(path, cwd))).filter(it => files.has(it) || (isAbsolute(it) && existsSync(it)))
+	if (!path.startsWith("#") && !path.startsWith("%"))
+		return { paths: paths, mountPoint: null, mountPaths: [] }
+	const mounted = findMountPoint(path, getMountPoints(cwd))
+	if (mounted)
+		return { paths: paths, mountPoint: mounted.prefix, mountPaths: [mounted.dir] }
+	const parts = path.substring(1).split(/[\\/]/)
+	const mountPoint = parts.length > 1 ? parts[0] : ""
+	return { paths: paths, mountPoint: path[0] + mountPoint, mountPaths: Array.from(new Set([cwd].concat(Array.from(workspaces)).map(it => join(it, mountPoint)))) }
+}
+
+// resolved includes of all files
+function getIncludeGraph(): Map</*fsPath*/string, /*included files*/string[]> {
+	if (includeGraphInvalid) {
+		includeGraphInvalid = false
+		includeGraph.clear()
+		for (const [fsPath, includes] of includesInFiles)
+			includeGraph.set(fsPath, [].concat(...includes.map(it => resolveInclude(it, dirname(fsPath)).paths)))
+	}
+	return includeGraph
+}
+
+// shortest include chain from file back to target
+function findIncludePath(from: string, to: string): string[] {
+	const graph = getIncludeGraph()
+	const prev: Map<string, string> = new Map([[from, null]])
+	const queue = [from]
+	while (queue.length > 0) {
+		const fsPath = queue.shift()
+		for (const it of graph.get(fsPath) ?? []) {
+			if (it == to) {
+				const path = [to]
+				for (let p = fsPath; p != null; p = prev.get(p))
+					path.unshift(p)
+				return path
+			}
+			if (!prev.has(it)) {
+				prev.set(it, fsPath)
+				queue.push(it)
+			}
+		}
+	}
+	return null
+}
+
+function validateIncludes(fsPath: string, blkFile: BlkBlock, diagnostics: Diagnostic[]) {
+	const cwd = dirname(fsPath)
+	for (const include of getIncludeRefs(blkFile)) {
+		const res = resolveInclude(include.path, cwd)
+		if (res.paths.length == 0) {
+			const mount = res.mountPoint != null
+				? `, mount point '${res.mountPoint}' was tried at ${res.mountPaths.map(it => `'${it}'`).join(", ")}`
+				: ""
+			diagnostics.push({
+				message: `Unresolved include '${include.path}'${mount}`,
+				range: BlkLocation.toRange(include.location),
+				severity: DiagnosticSeverity.Error,
+			})
+			continue
+		}
+		if (res.paths.length > 1)
+			diagnostics.push({
+				message: `Ambiguous include '${include.path}', it matches ${res.paths.length} files`,
+				range: BlkLocation.toRange(include.location),
+				severity: DiagnosticSeverity.Warning,
+				relatedInformation: res.paths.map(it => {
+					return { location: { uri: URI.file(it).toString(), range: Range.create(0, 0, 0, 0) }, message: it }
+				}),
+			})
+		for (const it of res.paths) {
+			const path = it == fsPath ? [fsPath, fsPath] : findIncludePath(it, fsPath)
+			if (path)
+				diagnostics.push({
+					message: `Include cycle '${[fsPath].concat(path.slice(it == fsPath ? 1 : 0)).map(p => relative(cwd, p).replace(/\\/g, "/")).join(" -> ")}'`,
+					range: BlkLocation.toRange(include.location),
+					severity: DiagnosticSeverity.Error,
+				})
+		}
+	}
+}
+
+// diagnostic codes with quick fixes
+export const unknownTemplateCode = "unknown-template"
+export const templateDuplicateCode = "template-duplicate"
+export const unknownParentCode = "unknown-parent"
+export const selfDependencyCode = "self-dependency"
+export const unknownComponentCode = "unknown-component"
+export const unusedTemplateCode = "unused-template"
+
+export function validateFile(fsPath: string, blkFile: BlkBlock, diagnostics: Diagnostic[]) {
+	log(`> validate ${fsPath}`)
+	if (!blkFile)
+		return
+
+	for (const error of BlkBlock.getErrors(blkFile))
+		diagnostics.push({
+			message: error.message,
+			range: BlkLocation.toRange(error.location),
+			severity: DiagnosticSeverity.Error,
+		})
+	validateIncludes(fsPath, blkFile, diagnostics)
+
+	blkFile.blocks = blkFile.blocks ?? []
+	updateCycles()
+	const usagesMap = unusedTemplatesHint ? getUsages() : null
+	for (const blk of blkFile.blocks) {
+		const usages = usagesMap && blk.name != entityWithTemplateName ? usagesMap.get(removeQuotes(blk.name)) : null
+		if (usages && usages.children == 0 && usages.entities == 0)
+			diagnostics.push({
+				message: `Template '${removeQuotes(blk.name)}' isn't used by templates and entities`,
+				range: BlkLocation.toRange(blk.location),
+				severity: DiagnosticSeverity.Hint,
+				code: unusedTemplateCode,
+				tags: [DiagnosticTag.Unnecessary],
+			})
+
+		if (blk.name == entityWithTemplateName)
+			for (const param of blk.params)
+				if (param._name == templateField && param._type == "t" && param._value.length > 0) {
+					const parts = splitAndRemoveQuotes(param._value)
+					for (const partName of parts)
+						if (getTemplates(partName).length == 0)
+							diagnostics.push({
+								message: `Unknown template '${partName}'`,
+								range: BlkLocation.toRange(param.location),
+								severity: DiagnosticSeverity.Error,
+								code: unknownTemplateCode,
+							})
+					const partsMap = new Map<string, boolean>()
+					for (const partName of parts) {
+						if (partsMap.has(partName))
+							diagnostics.push({
+								message: `Template duplicate '${partName}'`,
+								range: BlkLocation.toRange(param.location),
+								severity: DiagnosticSeverity.Error,
+								code: templateDuplicateCode,
+							})
+						partsMap.set(partName, true)
+					}
+				}
+
+		blk.params = blk.params ?? []
+		if (blk.name == entityWithTemplateName)
+			validateEntityComponents(fsPath, blk, diagnostics)
+		else
+			validateComponentTypes(blk, diagnostics)
+		for (const param of blk.params) {
+			if (param._name == extendsField && param._type == "t" && param._value.length > 0) {
+				const parentName = removeQuotes(param._value)
+				if (parentName == blk.name)
+					diagnostics.push({
+						message: `Recursively dependency '${parentName}'`,
+						range: BlkLocation.toRange(param.location),
+						severity: DiagnosticSeverity.Error,
+						code: selfDependencyCode,
+					})
+				const cycle = cycles.get(blk.name)?.get(parentName)
+				if (cycle)
+					diagnostics.push({
+						message: `Recursively dependency '${cycle.join(" -> ")}'`,
+						range: BlkLocation.toRange(param.location),
+						severity: DiagnosticSeverity.Error,
+					})
+				const parents = getTemplates(parentName)
+				if (parents.length == 0)
+					diagnostics.push({
+						message: `Unknown parent template '${parentName}'`,
+						range: BlkLocation.toRange(param.location),
+						severity: DiagnosticSeverity.Error,
+						code: unknownParentCode,
+					})
+				else if (parents.length > 1)
+					diagnostics.push({
+						message: `Multiple templates '${parentName}'`,
+						range: BlkLocation.toRange(param.location),
+						severity: DiagnosticSeverity.Hint,
+					})
+			}
+		}
+	}
+}
+
+// components of entity should be declared in its templates, other components are ignored by runtime
+function validateEntityComponents(fsPath: string, blk: BlkBlock, diagnostics: Diagnostic[]) {
+	const res = resolveEntity(blk, fsPath)
+	// unknown templates are reported already, their components can't be checked
+	if (res.templates.length == 0 || res.unknown.length > 0)
+		return
+	const undeclared = new Set(res.undeclared)
+	for (const param of blk.params)
+		if (undeclared.has(param._name))
+			diagnostics.push({
+				message: `Unknown component '${param._name}', it isn't declared in templates '${res.templates.join("+")}'`,
+				range: BlkLocation.toRange(param.location),
+				severity: DiagnosticSeverity.Warning,
+				code: unknownComponentCode,
+			})
+}
+
+// compares types of template components with types of same components in ancestors and _group blocks
+function validateComponentTypes(blk: BlkBlock, diagnostics: Diagnostic[]) {
+	const resolved = resolveTemplate(blk.name)
+	let inherited: ResolvedTemplate = null
+	for (const param of blk.params) {
+		if (!isComponentName(param._name) || param._type.length == 0)
+			continue
+		let component = resolved.components.get(param._name)
+		while (component && component.param !== param)
+			component = component.overrides
+		// duplicate template definition isn't a part of resolved template, check its parents only
+		if (!component) {
+			if (!inherited) {
+				inherited = { name: blk.name, components: new Map(), chain: [], unknown: [] }
+				const visited = new Set([blk.name])
+				for (const it of blk.params)
+					if (it._name == extendsField && it._type == "t" && it._value.length > 0)
+						resolveTemplate(removeQuotes(it._value), inherited, visited)
+			}
+			component = { param: param, template: blk.name, filePath: null, overrides: inherited.components.get(param._name) }
+		}
+		const conflicts: ResolvedComponent[] = []
+		for (let it = component.overrides; it; it = it.overrides)
+			if (it.param._type.length > 0 && it.param._type != param._type)
+				conflicts.push(it)
+		if (conflicts.length == 0)
+			continue
+		diagnostics.push({
+			message: `Type mismatch '${param._name}:${param._type}', declared as '${param._name}:${conflicts[0].param._type}' in '${conflicts[0].template}'`,
+			range: BlkLocation.toRange(param.location),
+			severity: DiagnosticSeverity.Error,
+			relatedInformation: conflicts.map(it => {
+				return {
+					location: { uri: URI.file(it.filePath).toString(), range: BlkLocation.toRange(it.param.location) },
+					message: `'${it.param._name}:${it.param._type}' in '${it.template}'`,
+				}
+			}),
+		})
+	}
+}
+
+export function getFileContent(fsPath: string): Promise<string> {
+	if (fileContents.has(fsPath))
+		return Promise.resolve(fileContents.get(fsPath))
+	return new Promise(done => readFile(fsPath, (err, data) => {
+		let txt = err ? null : data.toString()
+		if (txt?.charCodeAt(0) == 0xFEFF)
+			txt = txt.substr(1)
+		done(txt)
+	}))
+}
+
+// parses text without postprocessing, syntax errors are kept in parsed blocks
+export function parseText(text: string): BlkBlock {
+	if (text == null)
+		return null
+	try {
+		return parse(text)
+	} catch (err) {
+		return null
+	}
+}
+
+function collectLocations(blk: BlkBlock, res: Set<BlkLocation>) {
+	res.add(blk.location)
+	for (const it of blk.params) {
+		res.add(it.location)
+		res.add(it.indent)
+	}
+	for (const it of blk.includes ?? [])
+		res.add(it.location)
+	for (const it of blk.errors ?? [])
+		res.add(it.location)
+	for (const it of blk.blocks)
+		collectLocations(it, res)
+}
+
+// moves positions after 'from' position, columns are changed on the same line only
+function shiftPosition(pos: BlkPosition, from: BlkPosition, offset: number, line: number, column: number) {
+	if (pos.offset < from.offset)
+		return
+	if (pos.line == from.line)
+		pos.column += column
+	pos.line += line
+	pos.offset += offset
+}
+
+// parses changed top level block only and puts it to parsed file, returns false if whole file should be parsed
+export function reparseBlock(fsPath: string, text: string, start: number, end: number, length: number): boolean {
+	const blkFile = files.get(fsPath)
+	if (!blkFile)
+		return false
+	// change should be inside of block, name start and last '}' are kept
+	const index = blkFile.blocks.findIndex(it => it.location.start.offset < start && end < it.location.end.offset)
+	if (index < 0)
+		return false
+	const blk = blkFile.blocks[index]
+	const delta = length - (end - start)
+	const blockText = text.substring(blk.location.start.offset, blk.location.end.offset + delta)
+	const parsed = parseText(blockText)
+	// unclosed block takes following blocks, so block with errors is parsed with whole file
+	if (!parsed || (parsed.blocks?.length ?? 0) != 1 || (parsed.params?.length ?? 0) > 0 || (parsed.includes?.length ?? 0) > 0 ||
+		BlkBlock.getErrors(parsed).length > 0)
+		return false
+	const newBlk = parsed.blocks[0]
+	if (newBlk.location.start.offset != 0 || newBlk.location.end.offset != blockText.length)
+		return false
+
+	cleanupBlkBlock(newBlk, 1)
+	// comments before block are outside of changed text
+	newBlk.doc = blk.doc
+	const newLocations: Set<BlkLocation> = new Set()
+	collectLocations(newBlk, newLocations)
+	const blockStart = BlkPosition.create()
+	for (const it of newLocations) {
+		shiftPosition(it.start, blockStart, blk.location.start.offset, blk.location.start.line - 1, blk.location.start.column - 1)
+		shiftPosition(it.end, blockStart, blk.location.start.offset, blk.location.start.line - 1, blk.location.start.column - 1)
+	}
+
+	const oldEnd = blk.location.end
+	const newEnd = newBlk.location.end
+	const nextLocations: Set<BlkLocation> = new Set([blkFile.location])
+	for (const it of blkFile.params)
+		nextLocations.add(it.location).add(it.indent)
+	for (const it of blkFile.includes ?? [])
+		nextLocations.add(it.location)
+	for (const it of blkFile.errors ?? [])
+		nextLocations.add(it.location)
+	for (let i = index + 1; i < blkFile.blocks.length; i++)
+		collectLocations(blkFile.blocks[i], nextLocations)
+	for (const it of nextLocations) {
+		shiftPosition(it.start, oldEnd, delta, newEnd.line - oldEnd.line, newEnd.column - oldEnd.column)
+		shiftPosition(it.end, oldEnd, delta, newEnd.line - oldEnd.line, newEnd.column - oldEnd.column)
+	}
+
+	flattenBlock(newBlk)
+	blkFile.blocks[index] = newBlk
+	templatesIndexInvalid = true
+	processFile(fsPath, blkFile, /*flattened*/true)
+	return true
+}
+
+// parses file and updates workspace data, error of parsing is added to diagnostics
+export function scanFile(fsPath: string, workspaceFsPath: string = null, lazy = false, diagnostics: Diagnostic[] = null): Promise<BlkBlock> {
+	return new Promise(done => {
+		function onFile(err: NodeJS.ErrnoException, data: Buffer | string) {
+			if (err != null) {
+				log(`read file ${fsPath} error:`)
+				log(err.message)
+				done(null)
+				return
+			}
+			let txt: string = data.toString()
+			if (txt.charCodeAt(0) == 0xFEFF)
+				txt = txt.substr(1)
+			try {
+				const blk: BlkBlock = parse(txt)
+				outdatedFiles.delete(fsPath)
+				processFile(fsPath, blk)
+				if (!workspaceFsPath || workspaces.has(workspaceFsPath))
+					files.set(fsPath, blk)
+				templatesIndexInvalid = true
+				done(blk)
+			} catch (err) {
+				if (txt.trim().length > 0) {
+					log(`parse file ${fsPath} error:`)
+					log(err.message)
+					const location: BlkLocation = <BlkLocation>err.location ?? BlkLocation.create()
+					diagnostics?.push({
+						message: err.message,
+						range: BlkLocation.toRange(location),
+						severity: DiagnosticSeverity.Error,
+					})
+				}
+				if (lazy)
+					outdatedFiles.add(fsPath)
+				if (!lazy && (!workspaceFsPath || workspaces.has(workspaceFsPath)))
+					files.set(fsPath, null)
+				templatesIndexInvalid = true
+				done(null)
+			}
+		}
+		if (fileContents.has(fsPath))
+			onFile(null, fileContents.get(fsPath))
+		else
+			stat(fsPath, (err, stats) => {
+				if (err == null)
+					fileStamps.set(fsPath, { mtime: stats.mtimeMs, size: stats.size })
+				readFile(fsPath, onFile)
+			})
+	})
+}
+
+// files with same mtime and size are restored from index without parsing
+export function scanWorkspace(fsPath: string, index: WorkspaceIndex = null): Promise<void> {
+	log(`scan workspace: ${fsPath}`)
+	let restored = 0
+	return walk(fsPath, (err, file) => {
+		if (err != null) {
+			log(`walk ${file ?? fsPath} error:`)
+			log(err.message)
+			return Promise.resolve()
+		}
+		if (extname(file).toLowerCase() == ".blk") {
+			const entry = index?.files[file]
+			if (entry && !fileContents.has(file)) {
+				const stats = statSync(file)
+				if (stats.mtimeMs == entry.mtime && stats.size == entry.size) {
+					restoreFile(file, fsPath, entry)
+					restored++
+					return Promise.resolve()
+				}
+			}
+			log(`scan ${file}`)
+			return new Promise<void>(done => scanFile(file, fsPath).finally(done))
+		}
+		return Promise.resolve()
+	}).finally(() => {
+		if (index)
+			log(`restored from index: ${restored} files`)
+	})
+}
+
+// increase on any change of parsed data or index format
+const indexVersion = 3
+
+interface IndexEntry {
+	mtime: number
+	size: number
+	blk: BlkBlock
+	extendsInFile: [string, number][]
+	entitiesInScene: [string, number][]
+	templatesInFile: [string, number][]
+	parentsInFile: [string, string[]][]
+	completion: CompletionItem[]
+}
+
+export interface WorkspaceIndex {
+	version: number
+	workspace: string
+	files: { [fsPath: string]: IndexEntry }
+}
+
+function restoreFile(fsPath: string, workspaceFsPath: string, entry: IndexEntry) {
+	if (!workspaces.has(workspaceFsPath))
+		return
+	files.set(fsPath, entry.blk)
+	fileStamps.set(fsPath, { mtime: entry.mtime, size: entry.size })
+	templatesIndexInvalid = true
+	usagesInvalid = true
+	completionCacheInvalid = true
+	cyclesInvalid = true
+	const restore = <T>(map: Map<string, Map<string, T>>, data: [string, T][]) => {
+		if (data.length > 0) map.set(fsPath, new Map(data)); else map.delete(fsPath)
+	}
+	restore(extendsInFiles, entry.extendsInFile)
+	restore(entitiesInScenes, entry.entitiesInScene)
+	restore(templatesInFiles, entry.templatesInFile)
+	restore(parentsInFiles, entry.parentsInFile)
+	if (entry.completion.length > 0) completion.set(fsPath, entry.completion); else completion.delete(fsPath)
+	updateIncludes(fsPath, entry.blk)
+}
+
+export function loadIndex(indexPath: string, workspaceFsPath: string): Promise<WorkspaceIndex> {
+	return new Promise(done => readFile(indexPath, (err, data) => {
+		if (err != null) {
+			done(null)
+			return
+		}
+		try {
+			const index: WorkspaceIndex = JSON.parse(data.toString())
+			done(index.version == indexVersion && index.workspace == workspaceFsPath ? index : null)
+		} catch (err) {
+			log(`read index ${indexPath} error:`)
+			log(err.message)
+			done(null)
+		}
+	}))
+}
+
+// saves parsed data of files from disk, open files can have unsaved changes and keep their previous entries
+export async function saveIndex(indexPath: string, workspaceFsPath: string): Promise<void> {
+	const previous = await loadIndex(indexPath, workspaceFsPath)
+	const index: WorkspaceIndex = { version: indexVersion, workspace: workspaceFsPath, files: {} }
+	const prefix = workspaceFsPath.endsWith(sep) ? workspaceFsPath : workspaceFsPath + sep
+	for (const [fsPath, blk] of files) {
+		if (!fsPath.startsWith(prefix))
+			continue
+		const stamp = fileStamps.get(fsPath)
+		if (!blk || !stamp || fileContents.has(fsPath) || outdatedFiles.has(fsPath)) {
+			const entry = previous?.files[fsPath]
+			const stats = entry && existsSync(fsPath) ? statSync(fsPath) : null
+			if (stats && stats.mtimeMs == entry.mtime && stats.size == entry.size)
+				index.files[fsPath] = entry
+			continue
+		}
+		index.files[fsPath] = {
+			mtime: stamp.mtime,
+			size: stamp.size,
+			blk: blk,
+			extendsInFile: Array.from(extendsInFiles.get(fsPath) ?? []),
+			entitiesInScene: Array.from(entitiesInScenes.get(fsPath) ?? []),
+			templatesInFile: Array.from(templatesInFiles.get(fsPath) ?? []),
+			parentsInFile: Array.from(parentsInFiles.get(fsPath) ?? []),
+			completion: completion.get(fsPath) ?? [],
+		}
+	}
+	return new Promise(done => mkdir(dirname(indexPath), { recursive: true }, () =>
+		writeFile(indexPath, JSON.stringify(index), err => {
+			if (err != null) {
+				log(`write index ${indexPath} error:`)
+				log(err.message)
+			}
+			else
+				log(`index saved: ${Object.keys(index.files).length} files`)
+			done()
+		})
+	))
+}
+
+export interface TemplatePos {
+	name: string
+	filePath: string
+	location: BlkLocation
+	indent?: BlkLocation
+}
+
+export function getTemplateNames(): string[] {
+	getTemplateBlocks("")
+	return Array.from(templatesIndex.keys())
+}
+
+export function getTemplates(name: string): TemplatePos[] {
+	return getTemplateBlocks(name).map(it => { return { name: it.blk.name, filePath: it.filePath, location: it.blk.location } })
+}
+
+// documentation of first documented block, overrides can have own documentation
+export function getTemplateDoc(name: string): string {
+	return getTemplateBlocks(name).map(it => it.blk.doc).find(it => it) ?? null
+}
+
+interface TemplateBlock {
+	filePath: string
+	blk: BlkBlock
+}
+
+export function getTemplateBlocks(name: string): TemplateBlock[] {
+	if (templatesIndexInvalid) {
+		templatesIndexInvalid = false
+		templatesIndex.clear()
+		for (const [filePath, blkFile] of files)
+			for (const blk of blkFile?.blocks ?? [])
+				if (blk.name != entityWithTemplateName) {
+					if (!templatesIndex.has(blk.name)) templatesIndex.set(blk.name, [{ filePath: filePath, blk: blk }])
+					else templatesIndex.get(blk.name).push({ filePath: filePath, blk: blk })
+				}
+	}
+	return templatesIndex.get(name) ?? []
+}
+
+function isOverride(blk: BlkBlock): boolean {
+	return blk.params.some(it => it._name == overrideField && it._type == "b" && it._data === true)
+}
+
+export interface ResolvedComponent {
+	param: BlkParam
+	template: string
+	filePath: string
+	overrides?: ResolvedComponent // inherited component replaced by this one
+	local?: boolean // component is set by entity
+}
+
+export interface ResolvedTemplate {
+	name: string
+	components: Map</*component*/string, ResolvedComponent>
+	chain: string[] // resolved templates, ancestors first
+	unknown: string[] // unknown ancestors
+}
+
+export function resolveTemplate(name: string, res: ResolvedTemplate = null, visited: Set<string> = new Set()): ResolvedTemplate {
+	res = res ?? { name: name, components: new Map(), chain: [], unknown: [] }
+	if (visited.has(name))
+		return res
+	visited.add(name)
+
+	const blocks = getTemplateBlocks(name)
+	if (blocks.length == 0) {
+		res.unknown.push(name)
+		return res
+	}
+	// base definition first, then all blocks with _override:b=yes
+	const base = blocks.find(it => !isOverride(it.blk)) ?? blocks[0]
+	const definitions = [base].concat(blocks.filter(it => it != base && isOverride(it.blk)))
+	// parents first, own components override them wherever '_use' is placed
+	for (const it of definitions)
+		for (const param of it.blk.params)
+			if (param._name == extendsField && param._type == "t" && param._value.length > 0)
+				resolveTemplate(removeQuotes(param._value), res, visited)
+	for (const it of definitions)
+		for (const param of it.blk.params)
+			if (isComponentName(param._name))
+				res.components.set(param._name, { param: param, template: name, filePath: it.filePath, overrides: res.components.get(param._name) })
+	res.chain.push(name)
+	return res
+}
+
+// documentation of component or of nearest inherited one
+export function getComponentDoc(component: ResolvedComponent): string {
+	for (let it = component; it; it = it.overrides)
+		if (it.param.doc)
+			return it.param.doc
+	return null
+}
+
+export interface ResolvedEntity extends ResolvedTemplate {
+	templates: string[] // parts of _template
+	undeclared: string[] // local components which aren't declared in templates, they are ignored by runtime
+}
+
+// merges components of all _template parts, local components of entity override them
+export function resolveEntity(blk: BlkBlock, filePath: string): ResolvedEntity {
+	const templates: string[] = []
+	for (const param of blk.params)
+		if (param._name == templateField && param._type == "t" && param._value.length > 0)
+			templates.push(...splitAndRemoveQuotes(removeQuotes(param._value)).map(it => it.trim()).filter(it => it.length > 0))
+	const res: ResolvedEntity = { name: templates.join("+"), components: new Map(), chain: [], unknown: [], templates: templates, undeclared: [] }
+	const visited: Set<string> = new Set()
+	for (const name of templates)
+		resolveTemplate(name, res, visited)
+	for (const param of blk.params) {
+		if (!isComponentName(param._name))
+			continue
+		const inherited = res.components.get(param._name)
+		if (!inherited)
+			res.undeclared.push(param._name)
+		res.components.set(param._name, { param: param, template: blk.name, filePath: filePath, overrides: inherited, local: true })
+	}
+	return res
+}
+
+function componentToString(param: BlkParam): string {
+	const type = param._type.length > 0 ? `:${param._type}` : ""
+	return param._value.length > 0 ? `${param._name}${type}=${param._value}` : `"${param._name}${type}"{}`
+}
+
+export function resolvedEntityToString(res: ResolvedEntity): string {
+	const lines: string[] = []
+	lines.push(`// ${res.templates.join(" + ")}`)
+	if (res.unknown.length > 0)
+		lines.push(`// unknown templates: ${res.unknown.join(", ")}`)
+	lines.push(`${entityWithTemplateName}{`)
+	const undeclared = new Set(res.undeclared)
+	for (const it of res.components.values()) {
+		const info = !it.local
+			? `${it.template} ${it.filePath}:${it.param.location.start.line}`
+			: undeclared.has(it.param._name)
+				? "local, not declared in templates"
+				: `local, overrides ${it.overrides.template}: ${componentToString(it.overrides.param)}`
+		lines.push(`  ${componentToString(it.param)} // ${info}`)
+	}
+	lines.push("}")
+	return lines.join("\n")
+}
+
+export function resolvedTemplateToString(res: ResolvedTemplate): string {
+	const lines: string[] = []
+	if (res.chain.length > 1)
+		lines.push(`// ${res.chain.join(" -> ")}`)
+	if (res.unknown.length > 0)
+		lines.push(`// unknown templates: ${res.unknown.join(", ")}`)
+	lines.push(`${res.name}{`)
+	for (const it of res.components.values()) {
+		const overrides = it.overrides ? `, overrides ${it.overrides.template}` : ""
+		lines.push(`  ${componentToString(it.param)} // ${it.template}${overrides} ${it.filePath}:${it.param.location.start.line}`)
+	}
+	lines.push("}")
+	return lines.join("\n")
+}
+
+export function splitAndRemoveQuotes(str: string, delemiter = "+"): string[] { return str.split(delemiter).map(removeQuotes) }
+
+export function removeQuotes(str: string): string {
+	if (str.startsWith("\""))
+		str = str.substr(1, str.length - 1)
+	if (str.endsWith("\""))
+		str = str.substr(0, str.length - 1)
+	return str
+}
+
+export function findWSFile(path: string, cwd: string): string[] {
+	const mounted = findMountPoint(path, getMountPoints(cwd))
+	if (mounted)
+		return [mounted.path]
+	const relativePath = path.startsWith("#") || path.startsWith("%")
+	path = relativePath ? path.substring(1) : path
+	const res = findFile(path, cwd, workspaces.values(), relativePath, files.keys())
+	if (res.length == 0 && relativePath) {
+		let idx = path.replace(/\//g, "\\").indexOf("\\")
+		if (idx >= 0)
+			return findFile(path.substring(idx + 1), cwd, workspaces.values(), relativePath, files.keys())
+	}
+	return res
+}
+
+export function findAllReferences(name: string): TemplatePos[] {
+	const longName = `"${name}"`
+	const res: TemplatePos[] = []
+	for (const [filePath, blkFile] of files)
+		for (const blk of blkFile?.blocks ?? []) {
+			if (blk.name == entityWithTemplateName) {
+				for (const param of blk.params)
+					if (param._name == templateField && param._type == "t" && param._value.length > 0) {
+						const parts = splitAndRemoveQuotes(param._value)
+						for (const partName of parts) {
+							if (partName == name) {
+								res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
+								break
+							}
+						}
+					}
+			}
+			else if (blk.name == name) {
+				res.push({ name: name, filePath: filePath, location: blk.location })
+			}
+			for (const param of blk.params)
+				if (param._name == extendsField && param._type == "t" && (param._value == name || param._value == longName))
+					res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
+
+		}
+	return res
+}
+
+// '_use' params which use template as parent, same as counted in usages
+export function findChildren(name: string): TemplatePos[] {
+	const res: TemplatePos[] = []
+	for (const [filePath, blkFile] of files)
+		for (const blk of blkFile?.blocks ?? [])
+			for (const param of blk.params)
+				if (param._name == extendsField && param._type == "t" && param._value.length > 0 && removeQuotes(param._value) == name)
+					res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
+	return res
+}
+
+// '_template' params of entities which are composed of template, one per each part
+export function findEntities(name: string): TemplatePos[] {
+	const res: TemplatePos[] = []
+	for (const [filePath, blkFile] of files)
+		for (const blk of blkFile?.blocks ?? [])
+			if (blk.name == entityWithTemplateName)
+				for (const param of blk.params)
+					if (param._name == templateField && param._type == "t" && param._value.length > 0)
+						for (const partName of splitAndRemoveQuotes(param._value))
+							if (partName == name)
+								res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
+	return res
+}
+
+export function findAllTemplatesWithParam(name: string, type: string): TemplatePos[] {
+	const res: TemplatePos[] = []
+	for (const [filePath, blkFile] of files)
+		for (const blk of blkFile?.blocks ?? []) {
+			for (const param of blk.params)
+				if (param._name == name && param._type == type)
+					res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
+		}
+	return res
+}
@@ -0,0 +1,171 @@
+#!/usr/bin/env node
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver'
+import { resolve, relative } from 'path'
+import { URI } from 'vscode-uri'
+import { setLogger, setMountPoints, workspaces, files, scanFile, scanWorkspace, updateCycles, validateFile, getUnusedTemplates, unusedTemplatesToString } from './blkWorkspace'
+
+type OutputFormat = 'human' | 'json' | 'sarif'
+
+interface FileDiagnostics {
+	fsPath: string
+	diagnostics: Diagnostic[]
+}
+
+const usage = `usage: blk-ecs lint [--format human|json|sarif] [--mount <prefix>=<dir>]... [--verbose] <dirs...>
+       blk-ecs unused [--format human|json] [--mount <prefix>=<dir>]... [--verbose] <dirs...>`
+
+const severityNames = ["", "error", "warning", "info", "hint"]
+
+function severityName(diagnostic: Diagnostic) { return severityNames[diagnostic.severity ?? DiagnosticSeverity.Error] }
+
+function formatHuman(res: FileDiagnostics[]): string {
+	const lines: string[] = []
+	let errors = 0
+	let warnings = 0
+	for (const file of res)
+		for (const it of file.diagnostics) {
+			const start = it.range.start
+			lines.push(`${relative(process.cwd(), file.fsPath)}:${start.line + 1}:${start.character + 1}: ${severityName(it)}: ${it.message}`)
+			if (it.severity == DiagnosticSeverity.Error) errors++
+			else if (it.severity == DiagnosticSeverity.Warning) warnings++
+		}
+	lines.push(`${files.size} files checked, ${errors} error${errors == 1 ? "" : "s"}, ${warnings} warning${warnings == 1 ? "" : "s"}`)
+	return lines.join("\n")
+}
+
+function formatJson(res: FileDiagnostics[]): string {
+	const items = []
+	for (const file of res)
+		for (const it of file.diagnostics)
+			items.push({
+				file: file.fsPath,
+				line: it.range.start.line + 1,
+				column: it.range.start.character + 1,
+				endLine: it.range.end.line + 1,
+				endColumn: it.range.end.character + 1,
+				severity: severityName(it),
+				message: it.message,
+			})
+	return JSON.stringify(items, null, 2)
+}
+
+const sarifLevels = ["", "error", "warning", "note", "note"]
+
+function formatSarif(res: FileDiagnostics[]): string {
+	const results = []
+	for (const file of res)
+		for (const it of file.diagnostics)
+			results.push({
+				level: sarifLevels[it.severity ?? DiagnosticSeverity.Error],
+				message: { text: it.message },
+				locations: [{
+					physicalLocation: {
+						artifactLocation: { uri: URI.file(file.fsPath).toString() },
+						region: {
+							startLine: it.range.start.line + 1,
+							startColumn: it.range.start.character + 1,
+							endLine: it.range.end.line + 1,
+							endColumn: it.range.end.character + 1,
+						},
+					},
+				}],
+			})
+	return JSON.stringify({
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [{
+			tool: { driver: { name: "blk-ecs", informationUri: "https://github.com/profelis/blk-ecs" } },
+			results: results,
+		}],
+	}, null, 2)
+}
+
+async function scan(dirs: string[], mounts: { [prefix: string]: string }) {
+	for (const dir of dirs)
+		workspaces.add(resolve(dir))
+	for (const dir of workspaces)
+		setMountPoints(dir, mounts)
+	for (const dir of workspaces)
+		await scanWorkspace(dir)
+}
+
+// scans all files of dirs as workspaces and validates them
+async function lint(dirs: string[], mounts: { [prefix: string]: string }): Promise<FileDiagnostics[]> {
+	await scan(dirs, mounts)
+	updateCycles()
+
+	const res: FileDiagnostics[] = []
+	for (const fsPath of Array.from(files.keys()).sort()) {
+		const diagnostics: Diagnostic[] = []
+		const blkFile = files.get(fsPath) ?? await scanFile(fsPath, null, false, diagnostics)
+		validateFile(fsPath, blkFile, diagnostics)
+		diagnostics.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character)
+		if (diagnostics.length > 0)
+			res.push({ fsPath: fsPath, diagnostics: diagnostics })
+	}
+	return res
+}
+
+// templates without children and entities in all dirs, grouped by file
+async function unused(dirs: string[], mounts: { [prefix: string]: string }, format: OutputFormat): Promise<string> {
+	await scan(dirs, mounts)
+	const templates = getUnusedTemplates()
+	if (format == 'json')
+		return JSON.stringify(templates.map(it => ({ file: it.filePath, line: it.location.start.line, template: it.name })), null, 2)
+	return unusedTemplatesToString(templates, fsPath => relative(process.cwd(), fsPath))
+}
+
+async function main(args: string[]): Promise<number> {
+	let format: OutputFormat = 'human'
+	const dirs: string[] = []
+	const mounts: { [prefix: string]: string } = {}
+	const command = args[0]
+	if (command != "lint" && command != "unused") {
+		console.error(usage)
+		return 2
+	}
+	for (let i = 1; i < args.length; i++) {
+		const arg = args[i]
+		if (arg == "--verbose")
+			setLogger(message => console.error(message))
+		else if (arg == "--format" || arg.startsWith("--format=")) {
+			const value = arg == "--format" ? args[++i] : arg.substr("--format=".length)
+			if (value != "human" && value != "json" && (value != "sarif" || command != "lint")) {
+				console.error(`unknown format '${value}'\n${usage}`)
+				return 2
+			}
+			format = value
+		}
+		else if (arg == "--mount") {
+			const [prefix, dir] = (args[++i] ?? "").split("=")
+			if (!prefix || !dir) {
+				console.error(`invalid mount point '${args[i] ?? ""}'\n${usage}`)
+				return 2
+			}
+			// relative to current folder, not to scanned folders
+			mounts[prefix] = resolve(dir)
+		}
+		else if (arg.startsWith("-")) {
+			console.error(`unknown option '${arg}'\n${usage}`)
+			return 2
+		}
+		else
+			dirs.push(arg)
+	}
+	if (dirs.length == 0) {
+		console.error(usage)
+		return 2
+	}
+
+	// report only, unused templates aren't errors
+	if (command == "unused") {
+		console.log(await unused(dirs, mounts, format))
+		return 0
+	}
+
+	const res = await lint(dirs, mounts)
+	console.log(format == 'json' ? formatJson(res) : format == 'sarif' ? formatSarif(res) : formatHuman(res))
+	return res.some(file => file.diagnostics.some(it => it.severity == DiagnosticSeverity.Error)) ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code))
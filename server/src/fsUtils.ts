@@ -46,3 +46,24 @@ export function findFile(path: string, cwd: string, folders: IterableIterator<st
 	}
 	return paths
 }
+
+export interface MountedPath {
+	prefix: string // '#', '%' or named root like '%gameBase'
+	dir: string
+	path: string
+}
+
+// maps path with '#' or '%' prefix to directory of longest matching mount point
+export function findMountPoint(path: string, mountPoints: Map</*prefix*/string, /*dir*/string>): MountedPath {
+	let res: MountedPath = null
+	for (const [prefix, dir] of mountPoints) {
+		if (!path.startsWith(prefix) || (res && res.prefix.length >= prefix.length))
+			continue
+		// named roots match whole folder name only
+		const next = path.charAt(prefix.length)
+		if (prefix.length > 1 && next != "" && next != "/" && next != "\\")
+			continue
+		res = { prefix: prefix, dir: dir, path: resolve(dir, path.substring(prefix.length).replace(/^[\\/]+/, "")) }
+	}
+	return res
+}
@@ -1,90 +1,212 @@
 import {
-	createConnection, ProposedFeatures, TextDocumentSyncKind, SymbolInformation, Position, DidSaveTextDocumentNotification, MarkupKind, CompletionItem, CompletionItemKind, DidCloseTextDocumentNotification, Diagnostic, DiagnosticSeverity, DidChangeWorkspaceFoldersNotification, CodeLens, SymbolKind, WorkspaceEdit
-} from 'vscode-languageserver'
+	createConnection, ProposedFeatures, TextDocumentSyncKind, SymbolInformation, Position, DidSaveTextDocumentNotification, MarkupKind, CompletionItem, CompletionItemKind, DidCloseTextDocumentNotification, Diagnostic, DidChangeWorkspaceFoldersNotification, DidChangeWatchedFilesNotification, DidChangeConfigurationNotification, FileChangeType, WorkspaceFolder, Location, CodeLens, SymbolKind, WorkspaceEdit, TextDocumentPositionParams, Range, ServerCapabilities, TextEdit, FormattingOptions, CodeAction, CodeActionKind, ResponseError, ErrorCodes, DocumentHighlight, DocumentHighlightKind, DocumentLink, TypeHierarchyItem
+} from 'vscode-languageserver/node'
 
-import { parse } from './blk'
-import { readFile } from 'fs'
-import { extname, dirname } from 'path'
+import { dirname, relative, join, extname, sep } from 'path'
+import { createHash } from 'crypto'
 import { URI } from 'vscode-uri'
 import { extractAsPromised } from 'fuzzball'
-import { findFile, walk } from './fsUtils'
-import { BlkBlock, BlkParam, BlkPosition, BlkLocation, BlkIncludes, toSymbolInformation, entityWithTemplateName, templateField, extendsField, overrideField, importField, groupBlock, importSceneField } from './blkBlock'
+import { getCompletionContext, paramTypeCompletion, snippetCompletion } from './blkCompletion'
+import { formatBlk, formatBlkElements, BlkFormatOptions } from './blkFormatter'
+import { buildSemanticTokens, semanticTokensLegend } from './blkSemanticTokens'
+import { buildFoldingRanges, buildSelectionRanges } from './blkRanges'
+import { LineIndex } from './blkLineIndex'
+import { toTypeHierarchyItem, getSupertypes, getSubtypes, typeHierarchyToString } from './blkTypeHierarchy'
+import { BlkBlock, BlkParam, BlkPosition, BlkLocation, BlkIncludes, toSymbolInformation, isComponentName, entityWithTemplateName, templateField, extendsField, overrideField, importField, groupBlock, importSceneField } from './blkBlock'
+import {
+	setLogger, setMountPoints, workspaces, fileContents, outdatedFiles, files, clearFiles, purgeFile, getUsages, getCompletionCache, cleanupBlkBlock, updateCycles, validateFile, getFileContent, parseText, reparseBlock, scanFile, scanWorkspace,
+	loadIndex, saveIndex, ResolvedComponent, TemplatePos, getTemplateNames, getTemplates, getTemplateBlocks, resolveTemplate, resolvedTemplateToString, resolveEntity, resolvedEntityToString, getTemplateDoc, getComponentDoc, unknownTemplateCode, templateDuplicateCode, unknownParentCode, selfDependencyCode, unknownComponentCode, splitAndRemoveQuotes, removeQuotes, findWSFile, findAllReferences, findAllTemplatesWithParam, findChildren, findEntities, TemplateUsages,
+	IncludeRef, getIncludeRefs, getAssetRefs, resolveInclude, getUnusedTemplates, unusedTemplatesToString, setUnusedTemplatesHint, updateUnusedTemplates
+} from './blkWorkspace'
 
 const connection = createConnection(ProposedFeatures.all)
+setLogger(message => connection.console.log(message))
+
+const resolvedTemplateRequest = "blk-ecs/resolvedTemplate"
+const sceneViewRequest = "blk-ecs/sceneView"
+const typeHierarchyRequest = "blk-ecs/typeHierarchy"
+const unusedTemplatesRequest = "blk-ecs/unusedTemplates"
+// client command, it opens references peek with protocol locations
+const showReferencesCommand = "blk-ecs.showReferences"
+
+const usageLensKinds: (keyof TemplateUsages)[] = ["children", "entities", "definitions"]
+
+interface UsageLensData {
+	uri: string
+	name: string
+	kind: keyof TemplateUsages
+}
+
+interface SceneViewComponent {
+	name: string
+	type: string
+	value: string
+	template: string
+	location: Location
+	local: boolean
+	undeclared: boolean // local component isn't declared in templates
+	inherited: SceneViewComponent[] // overridden components, nearest first
+}
+
+// merged components of entity templates, see resolveEntity
+interface SceneView {
+	templates: string[]
+	unknown: string[]
+	components: SceneViewComponent[]
+}
+
+let hasConfigurationCapability = false
+let hasWatchedFilesCapability = false
+let storagePath: string = null // folder for workspace index, provided by client
+let initialWorkspaceFolders: WorkspaceFolder[] = []
 
 connection.onInitialize((params) => {
-	params.workspaceFolders.forEach(it => addWorkspaceUri(it.uri))
+	hasConfigurationCapability = !!params.capabilities.workspace?.configuration
+	hasWatchedFilesCapability = !!params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration
+	storagePath = params.initializationOptions?.storagePath ?? null
+	// workspaces are scanned after initialization, configuration of mount points is requested before scan
+	initialWorkspaceFolders = params.workspaceFolders ?? []
 	connection.console.log(`blk-ecs started`)
-	return {
-		capabilities: {
-			textDocumentSync: {
-				openClose: true,
-				change: TextDocumentSyncKind.Full
-			},
-			workspace: {
-				workspaceFolders: {
-					changeNotifications: true,
-					supported: true
-				}
-			},
-			documentSymbolProvider: true,
-			workspaceSymbolProvider: true,
-			definitionProvider: true,
-			hoverProvider: true,
-			referencesProvider: true,
-			completionProvider: {
-				resolveProvider: true,
-			},
-			codeLensProvider: {
-				resolveProvider: true,
-			},
-			renameProvider: {
-				prepareProvider: true,
+	const capabilities: ServerCapabilities = {
+		textDocumentSync: {
+			openClose: true,
+			change: TextDocumentSyncKind.Incremental
+		},
+		workspace: {
+			workspaceFolders: {
+				changeNotifications: true,
+				supported: true
 			}
-		}
+		},
+		documentSymbolProvider: true,
+		workspaceSymbolProvider: true,
+		definitionProvider: true,
+		hoverProvider: true,
+		referencesProvider: true,
+		documentHighlightProvider: true,
+		documentLinkProvider: {
+			resolveProvider: false,
+		},
+		completionProvider: {
+			resolveProvider: true,
+			triggerCharacters: ['"', '+', ':'],
+		},
+		codeLensProvider: {
+			resolveProvider: true,
+		},
+		codeActionProvider: true,
+		renameProvider: {
+			prepareProvider: true,
+		},
+		documentFormattingProvider: true,
+		documentRangeFormattingProvider: true,
+		foldingRangeProvider: true,
+		selectionRangeProvider: true,
+		semanticTokensProvider: {
+			legend: semanticTokensLegend,
+			full: true,
+		},
+		typeHierarchyProvider: true,
 	}
+	return { capabilities: capabilities }
 })
 
-
-function purgeFile(fsPath: string) {
-	fileContents.delete(fsPath)
-	files.delete(fsPath)
-	usagesInvalid = true
-	extendsInFiles.delete(fsPath)
-	entitiesInScenes.delete(fsPath)
-	templatesInFiles.delete(fsPath)
-	completionCacheInvalid = true
-	completion.delete(fsPath)
-}
+connection.onShutdown(async () => {
+	for (const fsPath of workspaces) {
+		const indexPath = getIndexPath(fsPath)
+		if (indexPath)
+			await saveIndex(indexPath, fsPath)
+	}
+})
 
 connection.onInitialized(() => {
 	connection.client.register(DidSaveTextDocumentNotification.type, undefined)
 	connection.client.register(DidCloseTextDocumentNotification.type, undefined)
 	connection.client.register(DidChangeWorkspaceFoldersNotification.type, undefined)
+	if (hasWatchedFilesCapability)
+		connection.client.register(DidChangeWatchedFilesNotification.type, { watchers: [{ globPattern: "**/*.blk" }] })
+	if (hasConfigurationCapability)
+		connection.client.register(DidChangeConfigurationNotification.type, undefined)
+
+	updateDiagnosticSettings()
+	initialWorkspaceFolders.forEach(it => addWorkspaceUri(it.uri))
+
+	connection.onDidChangeConfiguration(() => {
+		Promise.all(Array.from(workspaces).map(it => updateMountPoints(it)).concat(updateDiagnosticSettings())).then(rescanOpenFiles)
+	})
 
 	connection.workspace.onDidChangeWorkspaceFolders((event) => {
 		event.added.forEach(it => addWorkspaceUri(it.uri))
 		event.removed.forEach(it => removeWorkspaceUri(it.uri))
 	})
 
+	connection.onDidChangeWatchedFiles(async params => {
+		const changedTemplates: Set<string> = new Set()
+		for (const change of params.changes) {
+			const fsPath = URI.parse(change.uri).fsPath
+			const workspaceFsPath = getWorkspaceOfFile(fsPath)
+			// content of open files is managed by editor
+			if (!workspaceFsPath || openFiles.has(fsPath) || extname(fsPath).toLowerCase() != ".blk")
+				continue
+			connection.console.log(`> file ${fsPath} ${change.type == FileChangeType.Deleted ? "deleted" : "changed"}`)
+			for (const blk of files.get(fsPath)?.blocks ?? [])
+				changedTemplates.add(blk.name)
+			if (change.type == FileChangeType.Deleted)
+				purgeFile(fsPath)
+			else {
+				const blkFile = await scanFile(fsPath, workspaceFsPath)
+				for (const blk of blkFile?.blocks ?? [])
+					changedTemplates.add(blk.name)
+			}
+		}
+		if (changedTemplates.size == 0)
+			return
+		const cyclesChanged = updateCycles()
+		const unusedChanged = updateUnusedTemplates()
+		for (const fsPath of openFiles) {
+			const blkFile = files.get(fsPath)
+			if (blkFile && (cyclesChanged || unusedChanged || dependsOnTemplates(blkFile, changedTemplates)))
+				updateDiagnostics(fsPath, blkFile)
+		}
+	})
+
 	connection.onDidChangeTextDocument(params => {
 		const fsPath = URI.parse(params.textDocument.uri).fsPath
-		if (params.contentChanges.length > 0)
-			fileContents.set(fsPath, params.contentChanges[0].text)
-		scanFile(fsPath, null, false, true)
+		let text = fileContents.get(fsPath)
+		let reparse = text == null || outdatedFiles.has(fsPath)
+		for (const change of params.contentChanges) {
+			if (!("range" in change) || !change.range || text == null) {
+				text = change.text
+				reparse = true
+				continue
+			}
+			const lines = new LineIndex(text)
+			const start = lines.offsetAt(change.range.start)
+			const end = lines.offsetAt(change.range.end)
+			const newText = text.substring(0, start) + change.text + text.substring(end)
+			if (!reparse && !reparseBlock(fsPath, newText, start, end, change.text.length))
+				reparse = true
+			text = newText
+		}
+		if (text == null)
+			return
+		fileContents.set(fsPath, text)
+		if (reparse)
+			updateFile(fsPath, false, true)
 	})
 
 	connection.onDidOpenTextDocument(params => {
 		const fsPath = URI.parse(params.textDocument.uri).fsPath
 		purgeFile(fsPath)
 		openFiles.add(fsPath)
+		fileContents.set(fsPath, params.textDocument.text)
 		getOrScanFile(fsPath, true)
 	})
 
 	connection.onDidSaveTextDocument(params => {
 		const fsPath = URI.parse(params.textDocument.uri).fsPath
-		purgeFile(fsPath)
-		getOrScanFile(fsPath, true)
+		// content of open file is kept for incremental changes
+		updateFile(fsPath, true)
 	})
 
 	connection.onDidCloseTextDocument(params => {
@@ -99,19 +221,19 @@ connection.onInitialized(() => {
 	})
 
 	connection.onWorkspaceSymbol(async (params) => {
-		const data: Array<{ file: string; location: BlkLocation, name: string, kind: SymbolKind }> = []
+		const data: Array<{ file: string; location: BlkLocation, name: string, kind: SymbolKind, doc: string }> = []
 		const usedParams = new Set<string>()
 		for (const [file, blkFile] of files)
 			for (const blk of blkFile?.blocks ?? []) {
 				const key = blk.name
 				if (blk.name != entityWithTemplateName && !usedParams.has(key)) {
-					data.push({ file: file, name: key, location: blk.location, kind: SymbolKind.Struct })
+					data.push({ file: file, name: key, location: blk.location, kind: SymbolKind.Struct, doc: blk.doc })
 					usedParams.add(key)
 				}
 				for (const param of blk.params) {
 					const key = param._name
 					if (!usedParams.has(key)) {
-						data.push({ file: file, name: key, location: param.location, kind: SymbolKind.Field })
+						data.push({ file: file, name: key, location: param.location, kind: SymbolKind.Field, doc: param.doc })
 						usedParams.add(key)
 					}
 				}
@@ -120,7 +242,7 @@ connection.onInitialized(() => {
 		const scores = await extractAsPromised(params.query, data, { processor: (it) => it.name, limit: 100, cutoff: 20 })
 		const res: SymbolInformation[] = []
 		for (const [it] of scores)
-			res.push(toSymbolInformation(it.name, it.location, URI.file(it.file).toString(), it.kind))
+			res.push(toSymbolInformation(it.name, it.location, URI.file(it.file).toString(), it.kind, it.doc?.split("\n")[0]))
 		return res
 	})
 
@@ -151,19 +273,191 @@ connection.onInitialized(() => {
 			return null
 
 		const res = onDefinition(params.textDocument.uri, blkFile, params.position, /*only extends*/true)
-		if ((res.res?.length ?? 0) == 0 && !res.error)
-			return null
+		const resolvedName = !res.error && !res.include && (res.res?.length ?? 0) > 0 ? res.name : getTemplateAtHeader(blkFile, params.position)?.name
+		const doc = resolvedName ? getTemplateDoc(resolvedName) : null
+		const resolved = resolvedName ? (doc ? doc + "\n\n" : "") + "resolved '" + resolvedName + "':\n```\n" + resolvedTemplateToString(resolveTemplate(resolvedName)) + "\n```" : null
+		if ((res.res?.length ?? 0) == 0 && !res.error) {
+			if (resolved)
+				return { contents: { value: resolved, kind: MarkupKind.Markdown } }
+			const componentDoc = getComponentDocAt(params.textDocument.uri, blkFile, params.position)
+			const entity = getEntityAt(blkFile, params.position)
+			if (!entity)
+				return componentDoc ? { contents: { value: componentDoc, kind: MarkupKind.Markdown } } : null
+			const resolvedEntity = resolveEntity(entity, URI.parse(params.textDocument.uri).fsPath)
+			return { contents: { value: (componentDoc ? componentDoc + "\n\n" : "") + "resolved entity '" + resolvedEntity.name + "':\n```\n" + resolvedEntityToString(resolvedEntity) + "\n```", kind: MarkupKind.Markdown } }
+		}
 
-		const text = res.error
+		let text = res.error
 			? res.error
 			: res?.include
 				? ("```\n" + res.res.map(it => `${it.filePath}`).join("\n") + "\n```")
 				: ("'" + res.name + "' is declared in:\n```\n" + res.res.map(it => `${it.filePath}:${it.location.start.line}`).join("\n") + "\n```")
+		if (resolved)
+			text += "\n\n" + resolved
 		return {
 			contents: { value: text, kind: MarkupKind.Markdown }
 		}
 	})
 
+	connection.onRequest(resolvedTemplateRequest, async (params: TextDocumentPositionParams) => {
+		const blkFile = await getOrScanFileUri(params.textDocument.uri)
+		if (!blkFile)
+			return null
+
+		const name = getTemplateNameAt(params.textDocument.uri, blkFile, params.position)
+		return name ? resolvedTemplateToString(resolveTemplate(name)) : null
+	})
+
+	connection.languages.typeHierarchy.onPrepare(async params => {
+		const blkFile = await getOrScanFileUri(params.textDocument.uri)
+		if (!blkFile)
+			return null
+
+		const res = prepareTypeHierarchy(params.textDocument.uri, blkFile, params.position)
+		return res.length > 0 ? res : null
+	})
+
+	connection.languages.typeHierarchy.onSupertypes(params => getSupertypes(params.item))
+
+	connection.languages.typeHierarchy.onSubtypes(params => getSubtypes(params.item))
+
+	// fallback for clients without type hierarchy
+	connection.onRequest(typeHierarchyRequest, async (params: TextDocumentPositionParams) => {
+		const blkFile = await getOrScanFileUri(params.textDocument.uri)
+		if (!blkFile)
+			return null
+
+		const res = prepareTypeHierarchy(params.textDocument.uri, blkFile, params.position)
+		return res.length > 0 ? typeHierarchyToString(res) : null
+	})
+
+	connection.onRequest(unusedTemplatesRequest, () => {
+		const displayPath = (fsPath: string) => {
+			const workspaceFsPath = getWorkspaceOfFile(fsPath)
+			return workspaceFsPath ? relative(workspaceFsPath, fsPath) : fsPath
+		}
+		return unusedTemplatesToString(getUnusedTemplates(), displayPath)
+	})
+
+	connection.onRequest(sceneViewRequest, async (params: TextDocumentPositionParams): Promise<SceneView> => {
+		const blkFile = await getOrScanFileUri(params.textDocument.uri)
+		const entity = blkFile ? getEntityAt(blkFile, params.position) : null
+		if (!entity)
+			return null
+
+		const res = resolveEntity(entity, URI.parse(params.textDocument.uri).fsPath)
+		const undeclared = new Set(res.undeclared)
+		const toSceneViewComponent = (it: ResolvedComponent): SceneViewComponent => {
+			const inherited: SceneViewComponent[] = []
+			for (let parent = it.overrides; parent; parent = parent.overrides)
+				inherited.push(toSceneViewComponent({ param: parent.param, template: parent.template, filePath: parent.filePath }))
+			return {
+				name: it.param._name,
+				type: it.param._type,
+				value: it.param._value,
+				template: it.template,
+				location: { uri: URI.file(it.filePath).toString(), range: BlkLocation.toRange(it.param.location) },
+				local: !!it.local,
+				undeclared: !!it.local && undeclared.has(it.param._name),
+				inherited: inherited,
+			}
+		}
+		return { templates: res.templates, unknown: res.unknown, components: Array.from(res.components.values()).map(toSceneViewComponent) }
+	})
+
+	connection.languages.semanticTokens.on(async params => {
+		const text = await getFileContent(URI.parse(params.textDocument.uri).fsPath)
+		const blkFile = parseText(text)
+		if (!blkFile)
+			return null
+		cleanupBlkBlock(blkFile, 0)
+		return buildSemanticTokens(blkFile, text, {
+			isTemplateDefined: (name) => getTemplateBlocks(name).length > 0,
+			getInheritedComponents: (blk) => {
+				const res: Set<string> = new Set()
+				const parents = blk.name == entityWithTemplateName
+					? blk.params.filter(it => it._name == templateField && it._type == "t").map(it => splitAndRemoveQuotes(removeQuotes(it._value)))
+					: blk.params.filter(it => it._name == extendsField && it._type == "t").map(it => [removeQuotes(it._value)])
+				for (const parent of [].concat(...parents))
+					for (const name of resolveTemplate(parent).components.keys())
+						res.add(name)
+				return res
+			},
+		})
+	})
+
+	connection.onDocumentFormatting(async params => {
+		const text = await getFileContent(URI.parse(params.textDocument.uri).fsPath)
+		const blkFile = parseText(text)
+		// skipped text of syntax errors can't be formatted
+		if (!blkFile || BlkBlock.getErrors(blkFile).length > 0)
+			return null
+		const options = await getFormatOptions(params.textDocument.uri, params.options, text)
+		const lines = text.split("\n")
+		const range = Range.create(0, 0, lines.length - 1, lines[lines.length - 1].length)
+		return [TextEdit.replace(range, formatBlk(blkFile, text, options))]
+	})
+
+	connection.onDocumentRangeFormatting(async params => {
+		const text = await getFileContent(URI.parse(params.textDocument.uri).fsPath)
+		const blkFile = parseText(text)
+		if (!blkFile || BlkBlock.getErrors(blkFile).length > 0)
+			return null
+		const options = await getFormatOptions(params.textDocument.uri, params.options, text)
+		return formatBlkElements(blkFile, text, options, params.range.start.line, params.range.end.line)
+			.map(it => TextEdit.replace(BlkLocation.toRange(it.location), it.text))
+	})
+
+	connection.onFoldingRanges(async params => {
+		const blkFile = parseText(await getFileContent(URI.parse(params.textDocument.uri).fsPath))
+		return blkFile ? buildFoldingRanges(blkFile) : null
+	})
+
+	connection.onSelectionRanges(async params => {
+		const text = await getFileContent(URI.parse(params.textDocument.uri).fsPath)
+		const blkFile = parseText(text)
+		return blkFile ? buildSelectionRanges(blkFile, text, params.positions) : null
+	})
+
+	connection.onDocumentHighlight(async params => {
+		const fsPath = URI.parse(params.textDocument.uri).fsPath
+		const blkFile = await getOrScanFile(fsPath)
+		const text = await getFileContent(fsPath)
+		if (!blkFile || text == null)
+			return null
+
+		const lines = new LineIndex(text)
+		const target = getNameAt(text, lines, blkFile, params.position)
+		if (!target)
+			return null
+		return target.param ? getComponentHighlights(blkFile, target.param) : getTemplateHighlights(text, lines, blkFile, target.name)
+	})
+
+	connection.onDocumentLinks(async params => {
+		const fsPath = URI.parse(params.textDocument.uri).fsPath
+		const blkFile = await getOrScanFile(fsPath)
+		const text = await getFileContent(fsPath)
+		if (!blkFile || text == null)
+			return null
+
+		const refs = getIncludeRefs(blkFile)
+		const includes = new Set(refs.map(it => it.location))
+		refs.push(...getAssetRefs(blkFile).filter(it => !includes.has(it.location)))
+		const lines = new LineIndex(text)
+		const res: DocumentLink[] = []
+		for (const ref of refs) {
+			const offset = findPathOffset(text, ref)
+			const paths = offset >= 0 ? resolveInclude(ref.path, dirname(fsPath)).paths : []
+			if (paths.length > 0)
+				res.push({
+					range: lines.range(offset, offset + ref.path.length),
+					target: URI.file(paths[0]).toString(),
+					tooltip: paths.join("\n"),
+				})
+		}
+		return res
+	})
+
 	connection.onReferences(async params => {
 		const blkFile = await getOrScanFileUri(params.textDocument.uri)
 		if (!blkFile)
@@ -179,142 +473,183 @@ connection.onInitialized(() => {
 		})
 	})
 
-	connection.onCompletion(() => {
-		if (completionCacheInvalid) {
-			const start = Date.now()
-			completionCacheInvalid = false
-			const completionCacheMap: Map<string, CompletionItem> = new Map()
-			for (const file of completion.values())
-				for (const it of file)
-					if (!completionCacheMap.has(it.label))
-						completionCacheMap.set(it.label, it)
-			completionCache = Array.from(completionCacheMap.values())
-			completionCacheMap.clear()
-			connection.console.log(`invalidate completion cache: ${completionCache.length} records from ${completion.size} files in ${Date.now() - start}ms`)
+	connection.onCompletion(async params => {
+		const fsPath = URI.parse(params.textDocument.uri).fsPath
+		const text = await getFileContent(fsPath)
+		if (text == null)
+			return null
+		const context = getCompletionContext(text, params.position.line, params.position.character)
+		const range = Range.create(params.position.line, context.start, params.position.line, params.position.character)
+		switch (context.kind) {
+			case 'type':
+				return paramTypeCompletion
+			case 'template':
+				return getTemplateNames().map(it => {
+					return {
+						label: it,
+						kind: CompletionItemKind.Struct,
+						textEdit: { range: range, newText: it },
+						commitCharacters: context.multipleTemplates ? ["+"] : undefined,
+					}
+				})
+			case 'include': {
+				const cwd = dirname(fsPath)
+				const res: CompletionItem[] = []
+				for (const filePath of files.keys())
+					if (filePath != fsPath) {
+						const path = relative(cwd, filePath).replace(/\\/g, "/")
+						res.push({ label: path, kind: CompletionItemKind.File, textEdit: { range: range, newText: path } })
+					}
+				return res
+			}
+			case 'root':
+				return getTemplateNames().map((it): CompletionItem => { return { label: it, kind: CompletionItemKind.Struct } })
+					.concat(rootCompletion)
+			case 'component':
+				return getCompletionCache().filter(it => it.kind == CompletionItemKind.Field && !keywordCompletionLabels.has(it.label))
+					.concat(context.block == entityWithTemplateName ? entityCompletion : templateCompletion)
 		}
-		connection.console.log(`completion: ${completionCache.length} records in ${completion.size} files`)
-		return completionCache
+		return null
 	})
 
-	connection.onCompletionResolve(params => params)
+	connection.onCompletionResolve(params => {
+		// templates are completed from index, their documentation is added on resolve
+		if (params.kind == CompletionItemKind.Struct && !params.documentation)
+			params.documentation = getTemplateDoc(params.label) ?? undefined
+		return params
+	})
 
 	connection.onCodeLens(async params => {
 		const blkFile = await getOrScanFileUri(params.textDocument.uri)
 		if (!blkFile)
 			return null
 
-		if (usagesInvalid) {
-			usagesMap.clear()
-			usagesInvalid = false
-
-			for (const fileMap of extendsInFiles.values())
-				for (const [key, value] of fileMap)
-					usagesMap.set(key, (usagesMap.has(key) ? usagesMap.get(key) : 0) + value)
+		const usagesMap = getUsages()
+		const res: CodeLens[] = []
+		for (const blk of blkFile.blocks) {
+			const usages = blk.name != entityWithTemplateName ? usagesMap.get(removeQuotes(blk.name)) : null
+			if (!usages)
+				continue
+			const range = BlkLocation.toRange(blk.location)
+			// locations are collected on resolve
+			for (const kind of usageLensKinds)
+				if (kind == "definitions" ? usages.definitions > 1 : usages[kind] > 0)
+					res.push({ range: range, data: { uri: params.textDocument.uri, name: blk.name, kind: kind } })
+		}
+		return res
+	})
 
-			for (const fileMap of entitiesInScenes.values())
-				for (const [key, value] of fileMap)
-					usagesMap.set(key, (usagesMap.has(key) ? usagesMap.get(key) : 0) + value)
+	connection.onCodeLensResolve(params => {
+		const data: UsageLensData = params.data
+		const name = removeQuotes(data.name)
+		const res = data.kind == "children" ? findChildren(name) : data.kind == "entities" ? findEntities(name) : getTemplates(data.name)
+		const count = res.length
+		const title = data.kind == "children" ? `${count} ${count == 1 ? "child" : "children"}`
+			: data.kind == "entities" ? `${count} entit${count == 1 ? "y" : "ies"}`
+			: `defined ${count} times`
+		const locations = res.map(it => Location.create(URI.file(it.filePath).toString(), BlkLocation.toRange(it.location)))
+		params.command = { title: title, command: showReferencesCommand, arguments: [data.uri, params.range.start, locations] }
+		return params
+	})
 
-			for (const fileMap of templatesInFiles.values())
-				for (const [key, value] of fileMap)
-					usagesMap.set(key, (usagesMap.has(key) ? usagesMap.get(key) : 0) + value)
-		}
+	connection.onCodeAction(async params => {
+		const blkFile = await getOrScanFileUri(params.textDocument.uri)
+		const fsPath = URI.parse(params.textDocument.uri).fsPath
+		const text = await getFileContent(fsPath)
+		if (!blkFile || text == null)
+			return null
 
-		const res: CodeLens[] = []
-		for (const blk of blkFile.blocks) {
-			const name = removeQuotes(blk.name)
-			if (usagesMap.has(name)) {
-				const count = usagesMap.get(name)
-				res.push({ range: BlkLocation.toRange(blk.location), command: { title: `${count} usage${count == 1 ? "" : "s"}`, command: null } })
+		const lines = new LineIndex(text)
+		const res: CodeAction[] = []
+		const handled: Set<string> = new Set()
+		for (const diagnostic of params.context.diagnostics) {
+			const blk = blkFile.blocks.find(it => BlkLocation.isPosInLocation(it.location, diagnostic.range.start))
+			const param = blk?.params.find(it => BlkLocation.isPosInLocation(it.location, diagnostic.range.start))
+			// same param can have several diagnostics with same code, e.g. few unknown parts
+			const key = `${diagnostic.code}:${diagnostic.range.start.line}:${diagnostic.range.start.character}`
+			if (!param || handled.has(key))
+				continue
+			handled.add(key)
+			switch (diagnostic.code) {
+				case unknownComponentCode:
+					res.push(...await unknownComponentActions(params.textDocument.uri, blk, param, diagnostic))
+					break
+				case unknownTemplateCode:
+					res.push(...await unknownTemplateActions(params.textDocument.uri, text, lines, blk, param, diagnostic))
+					break
+				case unknownParentCode:
+					res.push(...await unknownTemplateActions(params.textDocument.uri, text, lines, blk, param, diagnostic))
+					res.push(...await createTemplateActions(params.textDocument.uri, text, blk, removeQuotes(param._value), diagnostic))
+					break
+				case templateDuplicateCode:
+					res.push(...templateDuplicateActions(params.textDocument.uri, text, lines, param, diagnostic))
+					break
+				case selfDependencyCode:
+					res.push({
+						title: `Remove self-referencing '${extendsField}'`,
+						kind: CodeActionKind.QuickFix,
+						diagnostics: [diagnostic],
+						edit: { changes: { [params.textDocument.uri]: [TextEdit.del(getParamLinesRange(text, lines, param))] } },
+					})
+					break
 			}
 		}
 		return res
 	})
 
-	connection.onCodeLensResolve(params => params)
-
 	connection.onRenameRequest(async params => {
-		const blkFile = await getOrScanFileUri(params.textDocument.uri)
-		if (!blkFile)
+		const fsPath = URI.parse(params.textDocument.uri).fsPath
+		const blkFile = await getOrScanFile(fsPath)
+		const text = await getFileContent(fsPath)
+		if (!blkFile || text == null)
 			return null
 
-		const pathData = URI.parse(params.textDocument.uri)
-		const res = findAllReferencesAt(pathData.fsPath, blkFile, params.position)
-		if (res.length == 0)
+		const lines = new LineIndex(text)
+		const target = getNameAt(text, lines, blkFile, params.position)
+		if (!target)
 			return null
+		if (!target.param) {
+			const error = validateTemplateRename(target.name, params.newName)
+			return error ? new ResponseError(ErrorCodes.InvalidRequest, error) : await getTemplateRenameEdit(target.name, params.newName)
+		}
 
 		const edit: WorkspaceEdit = { changes: {} }
-		for (const data of res) {
+		for (const data of findAllTemplatesWithParam(target.param._name, target.param._type)) {
 			const uri = URI.file(data.filePath).toString()
 			if (!(uri in edit.changes))
 				edit.changes[uri] = []
-			const range = BlkLocation.toRange(data.location)
-			range.end.line = range.start.line
-			if (data.indent)
-				range.start.character = data.indent.end.column - 1
-			if (data.name.startsWith("\""))
-				range.start.character++
-			// let endOffset = 0
-			// if (data.prefix) {
-			// 	const ns = data.name.endsWith(namespacePostfix) ? data.name.substr(1, data.name.length - namespacePostfix.length - 1) : data.name
-			// 	endOffset = ns.length
-			// }
-			// else {
-			// 	let nsLen = data.shortName != null ? 0 : namespace(data.name).length
-			// 	if (nsLen > 0)
-			// 		nsLen++
-			// 	range.start.character += nsLen
-			// 	endOffset = data.name.length - nsLen
-			// }
-			range.end.character = range.start.character + data.name.length
-			edit.changes[uri].push({ range: range, newText: params.newName })
+			// indent ends at first char of name, quotes are skipped by cleanupBlkParam
+			const start = BlkPosition.toPosition(data.indent.end)
+			edit.changes[uri].push(TextEdit.replace({ start: start, end: { line: start.line, character: start.character + data.name.length } }, params.newName))
 		}
 		return edit
 	})
 
 	connection.onPrepareRename(async params => {
-		const blkFile = await getOrScanFileUri(params.textDocument.uri)
-		if (!blkFile)
+		const fsPath = URI.parse(params.textDocument.uri).fsPath
+		const blkFile = await getOrScanFile(fsPath)
+		const text = await getFileContent(fsPath)
+		if (!blkFile || text == null)
 			return null
 
-		for (const blk of blkFile.blocks) {
-			for (const param of blk.params)
-				if (BlkLocation.isPosInLocation(param.location, params.position)) {
-					return { range: BlkLocation.toRange(param.location), placeholder: param._name }
-				}
-			// for (const child of blk.blocks)
-			// 	if (BlkLocation.isPosInLocation(child.location, params.position)) {
-			// 		return { range: BlkLocation.toRange(child.location), placeholder: child.name }
-			// 	}
-			if (BlkLocation.isPosInLocation(blk.location, params.position))
-				return null
-		}
-		return null
+		const lines = new LineIndex(text)
+		const target = getNameAt(text, lines, blkFile, params.position)
+		if (!target)
+			return null
+		if (!target.param && getTemplates(target.name).length == 0)
+			return new ResponseError(ErrorCodes.InvalidRequest, `Unknown template '${target.name}'`)
+		return { range: target.range, placeholder: text.substring(lines.offsetAt(target.range.start), lines.offsetAt(target.range.end)) }
 	})
 })
 
 connection.listen()
 
-const workspaces: Set</*fsPath*/string> = new Set()
 const openFiles: Set</*fsPath*/string> = new Set()
-const fileContents: Map</*fsPath*/string, string> = new Map() // content of changed files
-const files: Map</*fsPath*/string, BlkBlock> = new Map()
-
-const extendsInFiles: Map</*fsPath*/string, Map</*template*/string, number>> = new Map()
-const entitiesInScenes: Map</*fsPath*/string, Map</*template*/string, number>> = new Map()
-const templatesInFiles: Map</*fsPath*/string, Map</*template*/string, number>> = new Map()
-let usagesInvalid = true
-const usagesMap: Map<string, number> = new Map()
-
-const completion: Map</*fsPath*/string, CompletionItem[]> = new Map()
-let completionCacheInvalid = true
-let completionCache: CompletionItem[] = []
 
 function rescanOpenFiles() {
 	connection.console.log("> rescan open files")
 	for (const fsPath of openFiles.values())
-		scanFile(fsPath, null, true)
-	usagesInvalid = true
+		updateFile(fsPath, true)
 }
 
 function addWorkspaceUri(workspaceUri: string): void {
@@ -324,11 +659,59 @@ function addWorkspaceUri(workspaceUri: string): void {
 	if (!workspaces.has(fsPath))
 		workspaces.add(fsPath)
 
-	scanWorkspace(fsPath).finally(() => {
-		connection.console.log(`Total files: ${files.size}`)
-		rescanOpenFiles()
-		// connection.window.showInformationMessage(`'${fsPath}' scan complete`)
-	})
+	const indexPath = getIndexPath(fsPath)
+	updateMountPoints(fsPath)
+		.then(() => indexPath ? loadIndex(indexPath, fsPath) : null)
+		.then(it => scanWorkspace(fsPath, it))
+		.finally(() => {
+			connection.console.log(`Total files: ${files.size}`)
+			rescanOpenFiles()
+			if (indexPath && workspaces.has(fsPath))
+				saveIndex(indexPath, fsPath)
+			// connection.window.showInformationMessage(`'${fsPath}' scan complete`)
+		})
+}
+
+async function updateMountPoints(workspaceFsPath: string): Promise<void> {
+	if (!hasConfigurationCapability)
+		return
+	const config = await connection.workspace.getConfiguration({ scopeUri: URI.file(workspaceFsPath).toString(), section: "blk-ecs" })
+	setMountPoints(workspaceFsPath, config?.mountPoints)
+}
+
+async function updateDiagnosticSettings(): Promise<void> {
+	if (!hasConfigurationCapability)
+		return
+	const config = await connection.workspace.getConfiguration("blk-ecs.diagnostics")
+	setUnusedTemplatesHint(config?.unusedTemplates ?? false)
+}
+
+function getIndexPath(workspaceFsPath: string): string {
+	if (!storagePath)
+		return null
+	return join(storagePath, `index-${createHash("md5").update(workspaceFsPath).digest("hex")}.json`)
+}
+
+function getWorkspaceOfFile(fsPath: string): string {
+	for (const ws of workspaces.values())
+		if (fsPath.startsWith(ws.endsWith(sep) ? ws : ws + sep))
+			return ws
+	return null
+}
+
+// templates and entities of file use one of templates directly or through parents
+function dependsOnTemplates(blkFile: BlkBlock, names: Set<string>): boolean {
+	for (const blk of blkFile.blocks) {
+		const templates = blk.name == entityWithTemplateName
+			? [].concat(...blk.params.filter(it => it._name == templateField && it._type == "t").map(it => splitAndRemoveQuotes(removeQuotes(it._value))))
+			: [blk.name]
+		for (const name of templates) {
+			const resolved = resolveTemplate(name)
+			if (resolved.chain.some(it => names.has(it)) || resolved.unknown.some(it => names.has(it)))
+				return true
+		}
+	}
+	return false
 }
 
 function isFileInWorkspaces(fsPath: string) {
@@ -344,7 +727,7 @@ function removeWorkspaceUri(workspaceUri: string): void {
 	workspaces.delete(fsPath)
 
 	if (workspaces.size == 0)
-		files.clear()
+		clearFiles()
 	else {
 		const removeFiles: string[] = []
 		for (const fsPath of openFiles.keys())
@@ -361,296 +744,369 @@ function removeWorkspaceUri(workspaceUri: string): void {
 function getOrScanFileUri(fileUri: string): Promise<BlkBlock> { return getOrScanFile(URI.parse(fileUri).fsPath) }
 
 function getOrScanFile(filePath: string, diagnostic = false): Promise<BlkBlock> {
-	return files.has(filePath) ? Promise.resolve(files.get(filePath)) : scanFile(filePath, null, diagnostic)
+	return files.has(filePath) ? Promise.resolve(files.get(filePath)) : updateFile(filePath, diagnostic)
 }
 
-function addCompletion(filePath: string, name: string, type: string, kind: CompletionItemKind) {
-	if ((name?.length ?? 0) == 0)
-		return
-	completionCacheInvalid = true
-	const item = { label: (type?.length ?? 0) == 0 ? name : `${name}:${type}`, kind: kind }
-	if (!completion.has(filePath)) completion.set(filePath, [item]); else completion.get(filePath).push(item)
+// scans file, diagnostics of other open files are updated if set of cycles was changed
+async function updateFile(fsPath: string, diagnostic = false, lazy = false): Promise<BlkBlock> {
+	const diagnostics: Diagnostic[] = []
+	const blk = await scanFile(fsPath, null, lazy, diagnostics)
+	if (!diagnostic)
+		return blk
+	const cyclesChanged = blk ? updateCycles() : false
+	const unusedChanged = blk ? updateUnusedTemplates() : false
+	updateDiagnostics(fsPath, blk, diagnostics)
+	if (cyclesChanged || unusedChanged)
+		for (const openPath of openFiles)
+			if (openPath != fsPath && files.has(openPath))
+				updateDiagnostics(openPath, files.get(openPath))
+	return blk
 }
 
-function cleanupBlkBlock(blk: BlkBlock, depth: number) {
-	if (!blk)
-		return
-	delete blk.comments
-	delete blk.emptyLines
-	blk.blocks = blk.blocks ?? []
-	for (const it of blk.blocks)
-		cleanupBlkBlock(it, depth + 1)
-	blk.params = blk.params ?? []
-	for (const it of blk.params)
-		cleanupBlkParam(it, depth)
-}
-
-function cleanupBlkParam(param: BlkParam, depth: number) {
-	param._name = param.value.length > 0 ? removeQuotes(param.value[0]) : ""
-	param._type = param.value.length > 1 ? param.value[1] : ""
-	param._value = param.value.length > 2 ? param.value[2] : ""
-	if (param.value.length > 0 && param.value[0].startsWith(`"`)) {
-		param.indent.end.column++
-		param.indent.end.offset++
+const rootCompletion: CompletionItem[] = [
+	snippetCompletion("include", `include "\${1}"`, CompletionItemKind.Keyword),
+	snippetCompletion(entityWithTemplateName, `${entityWithTemplateName}{\n\t${templateField}:t="\${1}"\n\t$0\n}`, CompletionItemKind.Keyword),
+]
+
+const templateCompletion: CompletionItem[] = [
+	snippetCompletion(`${extendsField}:t`, `${extendsField}:t="\${1}"`, CompletionItemKind.Keyword, "parent template"),
+	snippetCompletion(`${overrideField}:b`, `${overrideField}:b=yes`, CompletionItemKind.Keyword, "override existing template"),
+	snippetCompletion(groupBlock, `${groupBlock}{\n\t$0\n}`, CompletionItemKind.Keyword, "group of components"),
+]
+
+const entityCompletion: CompletionItem[] = [
+	snippetCompletion(`${templateField}:t`, `${templateField}:t="\${1}"`, CompletionItemKind.Keyword, "templates of entity"),
+]
+
+const keywordCompletionLabels = new Set(templateCompletion.concat(entityCompletion).map(it => it.label))
+
+function updateDiagnostics(fsPath: string, blk: BlkBlock, diagnostics: Diagnostic[] = []) {
+	if (blk)
+		validateFile(fsPath, blk, diagnostics)
+	connection.sendDiagnostics({
+		uri: URI.file(fsPath).toString(),
+		diagnostics: diagnostics
+	})
+}
+
+async function getFormatOptions(uri: string, options: FormattingOptions, text: string): Promise<BlkFormatOptions> {
+	const config = hasConfigurationCapability ? await connection.workspace.getConfiguration({ scopeUri: uri, section: "blk-ecs.format" }) : null
+	return {
+		indent: options.insertSpaces ? " ".repeat(options.tabSize) : "\t",
+		newLine: text.indexOf("\r\n") >= 0 ? "\r\n" : "\n",
+		alignEquals: config?.alignEquals ?? false,
 	}
-	delete param.value
 }
 
-function processFile(fsPath: string, blkFile: BlkBlock) {
-	if (!blkFile)
-		return
+function getNewLine(text: string): string { return text.indexOf("\r\n") >= 0 ? "\r\n" : "\n" }
 
-	cleanupBlkBlock(blkFile, 0)
-	completionCacheInvalid = true
-	completion.delete(fsPath)
-	usagesInvalid = true
-	extendsInFiles.delete(fsPath)
-	entitiesInScenes.delete(fsPath)
-	templatesInFiles.delete(fsPath)
-
-	const extendsInFile: Map<string, number> = new Map()
-	const entitiesInScene: Map<string, number> = new Map()
-	const templatesInFile: Map<string, number> = new Map()
-
-	for (let i = 0; i < blkFile.blocks.length; i++)
-		for (let j = i + 1; j < blkFile.blocks.length; j++) {
-			const name = blkFile.blocks[i].name
-			if (name != entityWithTemplateName && name == blkFile.blocks[j].name)
-				templatesInFile.set(name, (templatesInFile.get(name) ?? 0) + 1)
-		}
-	for (const blk of blkFile.blocks) {
-		for (const child of blk.blocks) {
-			if (child.name == groupBlock) {
-				for (const childParam of child.params) {
-					const newParam: BlkParam = {
-						indent: BlkLocation.clone(childParam.indent),
-						location: childParam.location,
-						value: null,
-						_name: childParam._name,
-						_type: childParam._type,
-						_value: childParam._value,
-					}
-					if (newParam._name.startsWith(`"`)) {
-						newParam.indent.end.column++
-						newParam.indent.end.offset++
-					}
-					blk.params.push(newParam)
-					addCompletion(fsPath, newParam._name, newParam._type, CompletionItemKind.Field)
-				}
-				for (const childBlock of child.blocks) {
-					const parts = removeQuotes(childBlock.name).split(":").map(it => it.trim())
-					const newParam: BlkParam = {
-						indent: BlkLocation.create(childBlock.location.start, childBlock.location.start),
-						location: childBlock.location,
-						value: null,
-						_name: parts.length > 0 ? parts[0] : "",
-						_type: parts.length > 1 ? parts[1] : "",
-						_value: "",
-					}
-					if (childBlock.name.startsWith(`"`)) {
-						newParam.indent.end.column++
-						newParam.indent.end.offset++
-					}
-					blk.params.push(newParam)
-					addCompletion(fsPath, newParam._name, newParam._type, CompletionItemKind.Field)
-				}
-			} else {
-				const parts = removeQuotes(child.name).split(":").map(it => it.trim())
-				const newParam: BlkParam = {
-					indent: BlkLocation.create(child.location.start, child.location.start),
-					location: child.location,
-					value: null,
-					_name: parts.length > 0 ? parts[0] : "",
-					_type: parts.length > 1 ? parts[1] : "",
-					_value: "",
-				}
-				if (child.name.startsWith(`"`)) {
-					newParam.indent.end.column++
-					newParam.indent.end.offset++
-				}
-				blk.params.push(newParam)
-				addCompletion(fsPath, newParam._name, newParam._type, CompletionItemKind.Field)
-			}
-		}
-		addCompletion(fsPath, blk.name, "", CompletionItemKind.Struct)
+interface TemplatePart {
+	name: string
+	start: number // offsets in text
+	end: number
+}
 
-		for (const param of blk.params) {
-			if (param._name == extendsField && param._type == "t" && param._value.length > 0) {
-				const parentName = removeQuotes(param._value)
-				extendsInFile.set(parentName, extendsInFile.has(parentName) ? extendsInFile.get(parentName) + 1 : 1)
-			}
-			addCompletion(fsPath, param._name, param._type, CompletionItemKind.Field)
+// splits '_template' or '_use' value to template names with their offsets in text
+function getTemplateParts(text: string, param: { location: BlkLocation, indent?: BlkLocation }): TemplatePart[] {
+	const valueStart = text.indexOf("=", param.indent.end.offset) + 1
+	if (valueStart <= 0 || valueStart > param.location.end.offset)
+		return []
+	const res: TemplatePart[] = []
+	const value = text.substring(valueStart, param.location.end.offset)
+	const partRegExp = /[^\s"'+;]+/g
+	for (let match = partRegExp.exec(value); match; match = partRegExp.exec(value))
+		res.push({ name: match[0], start: valueStart + match.index, end: valueStart + match.index + match[0].length })
+	return res
+}
+
+// whole lines of param with line break, or only param if there is something else in these lines
+function getParamLinesRange(text: string, lines: LineIndex, param: BlkParam): Range {
+	let start = param.location.start.offset
+	let end = param.location.end.offset
+	const lineStart = text.lastIndexOf("\n", start - 1) + 1
+	const lineEnd = text.indexOf("\n", end - 1)
+	if (text.substring(lineStart, start).trim().length == 0 && text.substring(end, lineEnd < 0 ? text.length : lineEnd).trim().length == 0) {
+		start = lineStart
+		end = lineEnd < 0 ? text.length : lineEnd + 1
+	}
+	return lines.range(start, end)
+}
+
+async function unknownComponentActions(uri: string, entity: BlkBlock, param: BlkParam, diagnostic: Diagnostic): Promise<CodeAction[]> {
+	const resolved = resolveEntity(entity, URI.parse(uri).fsPath)
+	const candidates = Array.from(resolved.components.keys()).filter(it => resolved.undeclared.indexOf(it) < 0)
+	const scores = await extractAsPromised(param._name, candidates, { limit: 3, cutoff: 50 })
+	const start = { line: param.indent.end.line - 1, character: param.indent.end.column - 1 }
+	const range = { start: start, end: { line: start.line, character: start.character + param._name.length } }
+	return scores.map(([name]) => ({
+		title: `Replace with '${name}'`,
+		kind: CodeActionKind.QuickFix,
+		diagnostics: [diagnostic],
+		edit: { changes: { [uri]: [TextEdit.replace(range, name)] } },
+	}))
+}
+
+// unknown parts of '_template' or '_use' are replaced with closest template names
+async function unknownTemplateActions(uri: string, text: string, lines: LineIndex, blk: BlkBlock, param: BlkParam, diagnostic: Diagnostic): Promise<CodeAction[]> {
+	const res: CodeAction[] = []
+	// template can't be parent of itself
+	const candidates = getTemplateNames().filter(it => param._name != extendsField || it != blk.name)
+	for (const part of getTemplateParts(text, param)) {
+		if (getTemplates(part.name).length > 0)
+			continue
+		const range = lines.range(part.start, part.end)
+		for (const [name] of await extractAsPromised(part.name, candidates, { limit: 3, cutoff: 50 }))
+			res.push({
+				title: `Replace '${part.name}' with '${name}'`,
+				kind: CodeActionKind.QuickFix,
+				diagnostics: [diagnostic],
+				edit: { changes: { [uri]: [TextEdit.replace(range, name)] } },
+			})
+	}
+	return res
+}
+
+// zero based first line of comments right before element, they are documentation of element
+function getLeadingCommentsLine(text: string, location: BlkLocation): number {
+	const lines = text.split("\n").map(it => it.trim())
+	let res = location.start.line - 1
+	while (res > 0) {
+		if (lines[res - 1].startsWith("//")) {
+			res--
+			continue
 		}
+		if (!lines[res - 1].endsWith("*/"))
+			break
+		let start = res - 1
+		while (start > 0 && lines[start].indexOf("/*") < 0)
+			start--
+		if (!lines[start].startsWith("/*"))
+			break
+		res = start
+	}
+	return res
+}
 
-		if (blk.name == entityWithTemplateName)
-			for (const param of blk.params)
-				if (param._name == templateField && param._type == "t" && param._value.length > 0)
-					for (const partName of splitAndRemoveQuotes(param._value))
-						entitiesInScene.set(partName, entitiesInScene.has(partName) ? entitiesInScene.get(partName) + 1 : 1)
+// empty template is created before child template and its documentation or at the end of file with similar templates
+async function createTemplateActions(uri: string, text: string, blk: BlkBlock, name: string, diagnostic: Diagnostic): Promise<CodeAction[]> {
+	const fsPath = URI.parse(uri).fsPath
+	const newLine = getNewLine(text)
+	const res: CodeAction[] = [{
+		title: `Create template '${name}' in this file`,
+		kind: CodeActionKind.QuickFix,
+		diagnostics: [diagnostic],
+		edit: { changes: { [uri]: [TextEdit.insert({ line: getLeadingCommentsLine(text, blk.location), character: 0 }, `${name}{}${newLine}${newLine}`)] } },
+	}]
+	const similar = await extractAsPromised(name, getTemplateNames(), { limit: 5, cutoff: 50 })
+	const targets: Set<string> = new Set()
+	for (const [similarName] of similar)
+		for (const it of getTemplates(similarName))
+			if (it.filePath != fsPath)
+				targets.add(it.filePath)
+	for (const filePath of Array.from(targets).slice(0, 3)) {
+		const targetText = await getFileContent(filePath)
+		if (targetText == null)
+			continue
+		const targetNewLine = getNewLine(targetText)
+		const prefix = targetText.length == 0 || targetText.endsWith("\n") ? "" : targetNewLine
+		res.push({
+			title: `Create template '${name}' in '${relative(getWorkspaceOfFile(filePath) ?? dirname(filePath), filePath)}'`,
+			kind: CodeActionKind.QuickFix,
+			diagnostics: [diagnostic],
+			edit: { changes: { [URI.file(filePath).toString()]: [TextEdit.insert(new LineIndex(targetText).positionAt(targetText.length), `${prefix}${targetNewLine}${name}{}${targetNewLine}`)] } },
+		})
 	}
-	if (extendsInFile.size > 0)
-		extendsInFiles.set(fsPath, extendsInFile)
-	if (entitiesInScene.size > 0)
-		entitiesInScenes.set(fsPath, entitiesInScene)
-	if (templatesInFile.size > 0)
-		templatesInFiles.set(fsPath, templatesInFile)
+	return res
 }
 
+// every repeated part is removed with its '+'
+function templateDuplicateActions(uri: string, text: string, lines: LineIndex, param: BlkParam, diagnostic: Diagnostic): CodeAction[] {
+	const res: CodeAction[] = []
+	const parts = getTemplateParts(text, param)
+	const names: Set<string> = new Set()
+	for (let i = 0; i < parts.length; i++) {
+		if (!names.has(parts[i].name)) {
+			names.add(parts[i].name)
+			continue
+		}
+		const range = lines.range(parts[i - 1].end, parts[i].end)
+		res.push({
+			title: `Remove duplicate '+${parts[i].name}'`,
+			kind: CodeActionKind.QuickFix,
+			diagnostics: [diagnostic],
+			edit: { changes: { [uri]: [TextEdit.del(range)] } },
+		})
+	}
+	return res
+}
 
-function validateFile(fsPath: string, blkFile: BlkBlock, diagnostics: Diagnostic[]) {
-	connection.console.log(`> validate ${fsPath}`)
-	if (!blkFile)
-		return
+// offset of path in include statement or in param value
+function findPathOffset(text: string, ref: IncludeRef): number {
+	const start = ref.location.start.offset
+	const valueStart = text.startsWith("include", start) ? start + "include".length : text.indexOf("=", start) + 1
+	const offset = text.indexOf(ref.path, valueStart)
+	return offset >= 0 && offset + ref.path.length <= ref.location.end.offset ? offset : -1
+}
 
-	blkFile.blocks = blkFile.blocks ?? []
-	for (const blk of blkFile.blocks) {
-		if (blk.name == entityWithTemplateName)
-			for (const param of blk.params)
-				if (param._name == templateField && param._type == "t" && param._value.length > 0) {
-					const parts = splitAndRemoveQuotes(param._value)
-					for (const partName of parts)
-						if (getTemplates(partName).length == 0)
-							diagnostics.push({
-								message: `Unknown template '${partName}'`,
-								range: BlkLocation.toRange(param.location),
-								severity: DiagnosticSeverity.Error,
-							})
-					const partsMap = new Map<string, boolean>()
-					for (const partName of parts) {
-						if (partsMap.has(partName))
-							diagnostics.push({
-								message: `Template duplicate '${partName}'`,
-								range: BlkLocation.toRange(param.location),
-								severity: DiagnosticSeverity.Error,
-							})
-						partsMap.set(partName, true)
-					}
-				}
+// name of template in header without quotes
+function getTemplateHeaderRange(text: string, lines: LineIndex, name: string, location: BlkLocation): Range {
+	let offset = location.start.offset
+	if (name.startsWith("\"")) {
+		offset++
+		name = removeQuotes(name)
+	}
+	if (text.substr(offset, name.length) != name)
+		return null
+	return lines.range(offset, offset + name.length)
+}
+
+interface NameAt {
+	name: string
+	range: Range
+	param?: BlkParam // component under cursor, otherwise it's template name
+}
 
-		blk.params = blk.params ?? []
+// template header, '_use' value, '_template' part or component name
+function getNameAt(text: string, lines: LineIndex, blkFile: BlkBlock, position: Position): NameAt {
+	const offset = lines.offsetAt(position)
+	for (const blk of blkFile.blocks) {
+		if (!BlkLocation.isPosInLocation(blk.location, position))
+			continue
+		if (blk.name != entityWithTemplateName && position.line == blk.location.start.line - 1) {
+			const range = getTemplateHeaderRange(text, lines, blk.name, blk.location)
+			if (range && range.start.character <= position.character && position.character <= range.end.character)
+				return { name: blk.name, range: range }
+		}
 		for (const param of blk.params) {
-			if (param._name == extendsField && param._type == "t" && param._value.length > 0) {
-				const parentName = removeQuotes(param._value)
-				if (parentName == blk.name)
-					diagnostics.push({
-						message: `Recursively dependency '${parentName}'`,
-						range: BlkLocation.toRange(param.location),
-						severity: DiagnosticSeverity.Error,
-					})
-				const parents = getTemplates(parentName)
-				if (parents.length == 0)
-					diagnostics.push({
-						message: `Unknown parent template '${parentName}'`,
-						range: BlkLocation.toRange(param.location),
-						severity: DiagnosticSeverity.Error,
-					})
-				else if (parents.length > 1)
-					diagnostics.push({
-						message: `Multiple templates '${parentName}'`,
-						range: BlkLocation.toRange(param.location),
-						severity: DiagnosticSeverity.Hint,
-					})
+			if (!BlkLocation.isPosInLocation(param.location, position))
+				continue
+			if ((param._name == extendsField || param._name == templateField) && param._type == "t") {
+				const part = getTemplateParts(text, param).find(it => it.start <= offset && offset <= it.end)
+				if (part)
+					return { name: part.name, range: lines.range(part.start, part.end) }
 			}
+			if (!isComponentName(param._name))
+				return null
+			const start = BlkPosition.toPosition(param.indent.end)
+			return { name: param._name, range: { start: start, end: { line: start.line, character: start.character + param._name.length } }, param: param }
 		}
+		return null
 	}
+	return null
 }
 
-function updateDiagnostics(fsPath: string, blk: BlkBlock, diagnostics: Diagnostic[] = []) {
-	if (blk)
-		validateFile(fsPath, blk, diagnostics)
-	connection.sendDiagnostics({
-		uri: URI.file(fsPath).toString(),
-		diagnostics: diagnostics
-	})
+// template headers are declarations, '_use' values and '_template' parts are usages
+function getTemplateHighlights(text: string, lines: LineIndex, blkFile: BlkBlock, name: string): DocumentHighlight[] {
+	const res: DocumentHighlight[] = []
+	for (const blk of blkFile.blocks) {
+		if (blk.name == name) {
+			const range = getTemplateHeaderRange(text, lines, blk.name, blk.location)
+			if (range)
+				res.push({ range: range, kind: DocumentHighlightKind.Write })
+		}
+		for (const param of blk.params)
+			if ((param._name == extendsField || param._name == templateField) && param._type == "t")
+				for (const part of getTemplateParts(text, param))
+					if (part.name == name)
+						res.push({ range: lines.range(part.start, part.end), kind: DocumentHighlightKind.Read })
+	}
+	return res
 }
 
-function scanFile(fsPath: string, workspaceFsPath: string = null, diagnostic = false, lazy = false): Promise<BlkBlock> {
-	return new Promise(done => {
-		function onFile(err: NodeJS.ErrnoException, data: Buffer | string) {
-			if (err != null) {
-				connection.console.log(`read file ${fsPath} error:`)
-				connection.console.log(err.message)
-				done(null)
-				return
-			}
-			let txt: string = data.toString()
-			if (txt.charCodeAt(0) == 0xFEFF)
-				txt = txt.substr(1)
-			try {
-				const blk: BlkBlock = parse(txt)
-				processFile(fsPath, blk)
-				if (!workspaceFsPath || workspaces.has(workspaceFsPath))
-					files.set(fsPath, blk)
-				if (diagnostic)
-					updateDiagnostics(fsPath, blk)
-				done(blk)
-			} catch (err) {
-				const diagnostics: Diagnostic[] = []
-				if (txt.trim().length > 0) {
-					connection.console.log(`parse file ${fsPath} error:`)
-					connection.console.log(err.message)
-					const location: BlkLocation = <BlkLocation>err.location ?? BlkLocation.create()
-					if (diagnostic)
-						diagnostics.push({
-							message: err.message,
-							range: BlkLocation.toRange(location),
-							severity: DiagnosticSeverity.Error,
-						})
-				}
-				if (diagnostic)
-					updateDiagnostics(fsPath, null, diagnostics)
-				if (!lazy && (!workspaceFsPath || workspaces.has(workspaceFsPath)))
-					files.set(fsPath, null)
-				done(null)
-			}
+// component is declared by template without this component in parents, other params override or set it
+function getComponentHighlights(blkFile: BlkBlock, component: BlkParam): DocumentHighlight[] {
+	const res: DocumentHighlight[] = []
+	for (const blk of blkFile.blocks) {
+		const params = blk.params.filter(it => it._name == component._name && it._type == component._type)
+		if (params.length == 0)
+			continue
+		const inherited = blk.name == entityWithTemplateName || blk.params.some(it =>
+			it._name == extendsField && it._type == "t" && it._value.length > 0 && resolveTemplate(removeQuotes(it._value)).components.has(component._name))
+		for (const param of params) {
+			const start = BlkPosition.toPosition(param.indent.end)
+			res.push({ range: { start: start, end: { line: start.line, character: start.character + param._name.length } }, kind: inherited ? DocumentHighlightKind.Read : DocumentHighlightKind.Write })
 		}
-		if (fileContents.has(fsPath))
-			onFile(null, fileContents.get(fsPath))
-		else
-			readFile(fsPath, onFile)
-	})
+	}
+	return res
 }
 
-function scanWorkspace(fsPath: string): Promise<void> {
-	connection.console.log(`scan workspace: ${fsPath}`)
-	return walk(fsPath, (err, file) => {
-		if (err != null) {
-			connection.console.log(`walk ${file ?? fsPath} error:`)
-			connection.console.log(err.message)
-			return Promise.resolve()
-		}
-		if (extname(file).toLowerCase() == ".blk") {
-			connection.console.log(`scan ${file}`)
-			return new Promise<void>(done => scanFile(file, fsPath).finally(done))
+function validateTemplateRename(name: string, newName: string): string {
+	if (!/^[a-zA-Z0-9_][a-zA-Z0-9_.-]*$/.test(newName))
+		return `Invalid template name '${newName}'`
+	if (newName != name && getTemplates(newName).length > 0)
+		return `Template '${newName}' already exists`
+	return null
+}
+
+// headers of templates, '_use' values and '_template' parts in all files
+async function getTemplateRenameEdit(name: string, newName: string): Promise<WorkspaceEdit> {
+	const edit: WorkspaceEdit = { changes: {} }
+	const indexes: Map</*fsPath*/string, LineIndex> = new Map()
+	for (const data of findAllReferences(name)) {
+		const text = await getFileContent(data.filePath)
+		if (text == null)
+			continue
+		// one index per file, shared by all references in it
+		if (!indexes.has(data.filePath))
+			indexes.set(data.filePath, new LineIndex(text))
+		const lines = indexes.get(data.filePath)
+		const uri = URI.file(data.filePath).toString()
+		if (!(uri in edit.changes))
+			edit.changes[uri] = []
+		if (!data.indent) {
+			const range = getTemplateHeaderRange(text, lines, data.name, data.location)
+			if (range)
+				edit.changes[uri].push(TextEdit.replace(range, newName))
+			continue
 		}
-		return Promise.resolve()
-	})
+		for (const part of getTemplateParts(text, data))
+			if (part.name == name)
+				edit.changes[uri].push(TextEdit.replace(lines.range(part.start, part.end), newName))
+	}
+	return edit
 }
 
-interface TemplatePos {
-	name: string
-	filePath: string
-	location: BlkLocation
-	indent?: BlkLocation
+function getTemplateAtHeader(blkFile: BlkBlock, position: Position): BlkBlock {
+	for (const blk of blkFile.blocks)
+		if (blk.name != entityWithTemplateName && position.line == blk.location.start.line - 1 && BlkLocation.isPosInLocation(blk.location, position))
+			return blk
+	return null
 }
 
-function getTemplates(name: string): TemplatePos[] {
-	const res: TemplatePos[] = []
-	for (const [filePath, blkFile] of files)
-		for (const blk of blkFile?.blocks ?? [])
-			if (blk.name == name)
-				res.push({ name: blk.name, filePath: filePath, location: blk.location })
-	return res
+function getEntityAt(blkFile: BlkBlock, position: Position): BlkBlock {
+	for (const blk of blkFile.blocks)
+		if (blk.name == entityWithTemplateName && BlkLocation.isPosInLocation(blk.location, position))
+			return blk
+	return null
 }
 
-function splitAndRemoveQuotes(str: string, delemiter = "+"): string[] { return str.split(delemiter).map(removeQuotes) }
+// template under cursor or root block (template or entity) at position
+function prepareTypeHierarchy(uri: string, blkFile: BlkBlock, position: Position): TypeHierarchyItem[] {
+	const res = onDefinition(uri, blkFile, position)
+	if (!res.error && !res.include && (res.res?.length ?? 0) > 0)
+		return getTemplateBlocks(res.name).map(it => toTypeHierarchyItem(it.filePath, it.blk))
+	const blk = blkFile.blocks.find(it => BlkLocation.isPosInLocation(it.location, position))
+	return blk ? [toTypeHierarchyItem(URI.parse(uri).fsPath, blk)] : []
+}
 
-function removeQuotes(str: string): string {
-	if (str.startsWith("\""))
-		str = str.substr(1, str.length - 1)
-	if (str.endsWith("\""))
-		str = str.substr(0, str.length - 1)
-	return str
+// documentation of component under cursor, inherited one is used if component isn't documented
+function getComponentDocAt(uri: string, blkFile: BlkBlock, position: Position): string {
+	const param = getParamAt(blkFile, position)
+	if (!param?.res || param.depth != 1 || !isComponentName(param.res._name))
+		return null
+	if (param.res.doc)
+		return param.res.doc
+	const resolved = param.parent.name == entityWithTemplateName ? resolveEntity(param.parent, URI.parse(uri).fsPath) : resolveTemplate(param.parent.name)
+	const component = resolved.components.get(param.res._name)
+	return component ? getComponentDoc(component) : null
+}
+
+function getTemplateNameAt(uri: string, blkFile: BlkBlock, position: Position): string {
+	const blk = getTemplateAtHeader(blkFile, position)
+	if (blk)
+		return blk.name
+	const res = onDefinition(uri, blkFile, position)
+	return !res.error && !res.include && (res.res?.length ?? 0) > 0 ? res.name : null
 }
 
 function getParamAt(blkFile: BlkBlock, position: Position, depth = 0, parent: BlkBlock = null): { res: BlkParam, include: BlkIncludes, depth: number, parent?: BlkBlock } {
@@ -752,57 +1208,6 @@ function onDefinition(uri: string, blkFile: BlkBlock, position: Position, onlyEx
 	return { res: [] }
 }
 
-function findWSFile(path: string, cwd: string): string[] {
-	const relativePath = path.startsWith("#") || path.startsWith("%")
-	path = relativePath ? path.substring(1) : path
-	const res = findFile(path, cwd, workspaces.values(), relativePath, files.keys())
-	if (res.length == 0 && relativePath) {
-		let idx = path.replace(/\//g, "\\").indexOf("\\")
-		if (idx >= 0)
-			return findFile(path.substring(idx + 1), cwd, workspaces.values(), relativePath, files.keys())
-	}
-	return res
-}
-
-function findAllReferences(name: string): TemplatePos[] {
-	const longName = `"${name}"`
-	const res: TemplatePos[] = []
-	for (const [filePath, blkFile] of files)
-		for (const blk of blkFile?.blocks ?? []) {
-			if (blk.name == entityWithTemplateName) {
-				for (const param of blk.params)
-					if (param._name == templateField && param._type == "t" && param._value.length > 0) {
-						const parts = splitAndRemoveQuotes(param._value)
-						for (const partName of parts) {
-							if (partName == name) {
-								res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
-								break
-							}
-						}
-					}
-			}
-			else if (blk.name == name) {
-				res.push({ name: name, filePath: filePath, location: blk.location })
-			}
-			for (const param of blk.params)
-				if (param._name == extendsField && param._type == "t" && (param._value == name || param._value == longName))
-					res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
-
-		}
-	return res
-}
-
-function findAllTemplatesWithParam(name: string, type: string): TemplatePos[] {
-	const res: TemplatePos[] = []
-	for (const [filePath, blkFile] of files)
-		for (const blk of blkFile?.blocks ?? []) {
-			for (const param of blk.params)
-				if (param._name == name && param._type == type)
-					res.push({ name: name, filePath: filePath, location: param.location, indent: param.indent })
-		}
-	return res
-}
-
 function findAllReferencesAt(filePath: string, blkFile: BlkBlock, position: Position): TemplatePos[] {
 	for (const blk of blkFile.blocks) {
 		if (!blk.location || !BlkLocation.isPosInLocation(blk.location, position))